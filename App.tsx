@@ -1,11 +1,47 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Upload, FileVideo, Languages, Loader2, Download, Globe, Play } from './components/Icons';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Upload, FileVideo, Languages, Loader2, Download, Globe, Play, FileText, History, Settings, BookOpen, Gauge, Database } from './components/Icons';
 import { Button } from './components/Button';
 import { AudioPlayer } from './components/AudioPlayer';
-import { TranslationStatus, AnalysisResult, LANGUAGES, LanguageOption } from './types';
-import { analyzeAndTranslateVideo, generateSpeech } from './services/gemini';
+import { SubtitleDownloads } from './components/SubtitleDownloads';
+import { ValidationWarnings } from './components/ValidationWarnings';
+import { BatchQueue } from './components/BatchQueue';
+import { ExportPanel } from './components/ExportPanel';
+import { AudioDownloads } from './components/AudioDownloads';
+import { ProjectHistory } from './components/ProjectHistory';
+import { LanguageSettings } from './components/LanguageSettings';
+import { GlossaryManager } from './components/GlossaryManager';
+import { UsagePanel } from './components/UsagePanel';
+import { CachePanel } from './components/CachePanel';
+import { SpeakerPanel } from './components/SpeakerPanel';
+import { VoicePicker } from './components/VoicePicker';
+import { TranslationStylePanel } from './components/TranslationStylePanel';
+import { TranscriptEditor, SegmentAction } from './components/TranscriptEditor';
+import { useHistory } from './hooks/useHistory';
+import { OriginalAudioMode, useSyncedDub } from './hooks/useSyncedDub';
+import { TranslationStatus, AnalysisResult, GlossaryEntry, LANGUAGES, LanguageOption, Segment, Speaker, SpeechStyle, TranslationStyle } from './types';
+import { getProvider } from './services/providers';
+import { AppSettings, findLanguage, getLanguages, loadSettings, saveSettings } from './services/settings';
+import { checkGlossary, GlossaryViolation, glossaryForLanguage } from './services/glossary';
+import { isOverBudget, lengthBudget } from './services/translationStyle';
+import { addUsage, EMPTY_USAGE, estimateRunCost, formatCost, PriceTable, totalCost, UsageSummary, withUsageTracking } from './services/usage';
+import { withResultCache } from './services/resultCache';
+import { createIndexedDbCacheStore } from './services/cacheStore';
+import { voiceForSegment } from './services/speakers';
+import { assembleDubTrack, isClipStale, synthesizeSegmentClip, SegmentClip } from './services/dubbing';
+import { PipelineEvent, PipelineSource, runTranslationPipeline, transcribeSource } from './services/pipeline';
+import { baseFilename, downloadBlob } from './services/download';
+import { AudioExportFormat, encodeAudio } from './services/audioEncoding';
+import { parseSubtitles } from './services/subtitles';
+import { ChunkProgress } from './services/chunking';
+import { isLongMedia, MAX_FILE_SIZE_MB, MAX_LONG_MEDIA_SIZE_MB } from './services/media';
+import { formatTimestamp, parseTimestamp } from './services/timecode';
+import { describeError, isCancellation } from './services/request';
+import { createProjectId, getProject, getProjectClips, getProjectMedia, Project, ProjectClips, saveProject } from './services/projectStore';
 
-const MAX_FILE_SIZE_MB = 15;
+const provider = getProvider();
+
+// Stable empty list so the playback hook does not re-parse timings every render
+const NO_SEGMENTS: Segment[] = [];
 
 const SAMPLE_VIDEOS = [
   {
@@ -21,18 +57,121 @@ const SAMPLE_VIDEOS = [
 ];
 
 const App: React.FC = () => {
+  const [mode, setMode] = useState<'single' | 'batch'>('single');
   const [status, setStatus] = useState<TranslationStatus>(TranslationStatus.IDLE);
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [appSettings, setAppSettings] = useState<AppSettings>(loadSettings);
+  const languages = useMemo(() => getLanguages(appSettings), [appSettings]);
   const [targetLang, setTargetLang] = useState<LanguageOption>(LANGUAGES[1]); // Default Spanish
-  const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
-  const [generatedAudioBase64, setGeneratedAudioBase64] = useState<string | null>(null);
+  // Null auto-detects the spoken language
+  const [sourceLangCode, setSourceLangCode] = useState<string | null>(null);
+  const sourceLanguage = findLanguage(sourceLangCode, languages)?.name;
+  const glossary = glossaryForLanguage(appSettings.glossary, targetLang.code);
+  const [translationStyle, setTranslationStyle] = useState<TranslationStyle>({});
+  const [sessionUsage, setSessionUsage] = useState<UsageSummary>(EMPTY_USAGE);
+  const [projectUsage, setProjectUsage] = useState<UsageSummary>(EMPTY_USAGE);
+  const [mediaDuration, setMediaDuration] = useState<number | null>(null);
+  // Read through a ref so the metered providers below stay stable while prices are edited
+  const pricesRef = useRef(appSettings.prices);
+  pricesRef.current = appSettings.prices;
+  const cacheLimitRef = useRef(appSettings.cacheLimitMb);
+  cacheLimitRef.current = appSettings.cacheLimitMb;
+  const resultCache = useMemo(() => createIndexedDbCacheStore(() => cacheLimitRef.current * 1024 * 1024), []);
+  // Every call made for the open project counts towards it; previews and batch runs only towards the session.
+  // Cache hits are answered before the usage tracker, so they cost nothing.
+  const metered = useMemo(() => ({
+    project: withResultCache(withUsageTracking(provider, usage => {
+      setSessionUsage(prev => addUsage(prev, usage, pricesRef.current));
+      setProjectUsage(prev => addUsage(prev, usage, pricesRef.current));
+    }), resultCache),
+    session: withResultCache(
+      withUsageTracking(provider, usage => setSessionUsage(prev => addUsage(prev, usage, pricesRef.current))),
+      resultCache
+    ),
+  }), [resultCache]);
+  // Edits to the transcript are undoable; a fresh run resets the history
+  const transcript = useHistory<AnalysisResult | null>(null);
+  const analysisResult = transcript.value;
+  // Reviewed source transcript of the media; other languages are translated from it without re-transcribing
+  const [sourceTranscript, setSourceTranscript] = useState<AnalysisResult | null>(null);
+  const [reviewBeforeTranslating, setReviewBeforeTranslating] = useState(true);
+  // While reviewing, the transcript being edited is the untranslated source
+  const isReviewing = status === TranslationStatus.AWAITING_REVIEW;
+  // Lines streaming in during transcription have no translation yet either
+  const showsSource = isReviewing || status === TranslationStatus.TRANSCRIBING;
+  const [dubClips, setDubClips] = useState<(SegmentClip | null)[]>([]);
+  const [dubVersion, setDubVersion] = useState(0);
+  const [busySegment, setBusySegment] = useState<{ index: number; action: SegmentAction } | null>(null);
+  const [segmentError, setSegmentError] = useState<{ index: number; message: string } | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [progressMessage, setProgressMessage] = useState<string>("");
+  // Completion of the current run from 0 to 1; null until the pipeline reports any
+  const [progress, setProgress] = useState<number | null>(null);
   const [isDownloadingSample, setIsDownloadingSample] = useState(false);
+  const [importedSubtitles, setImportedSubtitles] = useState<{ fileName: string; segments: Segment[] } | null>(null);
+  const [generateDub, setGenerateDub] = useState(true);
+  const [audioFormat, setAudioFormat] = useState<AudioExportFormat>('wav');
+  const [playDub, setPlayDub] = useState(true);
+  // Project voice (null follows the target language's default) and delivery style
+  const [voiceName, setVoiceName] = useState<string | null>(null);
+  const [speechStyle, setSpeechStyle] = useState<SpeechStyle>({});
+  const projectVoice = voiceName ?? targetLang.voiceName;
+  const [originalAudio, setOriginalAudio] = useState<OriginalAudioMode>('ducked');
+  const [chunkProgress, setChunkProgress] = useState<ChunkProgress[]>([]);
+  // Language code the current transcript was translated into (may differ from the selected target)
+  const [resultLangCode, setResultLangCode] = useState<string | null>(null);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isLanguagesOpen, setIsLanguagesOpen] = useState(false);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isCacheOpen, setIsCacheOpen] = useState(false);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+
+  const sessionCost = totalCost(sessionUsage);
+  const spendingCap = appSettings.spendingCapUsd;
+  // Captions and existing transcripts are priced by their text; media by its duration once the player has read it
+  const sourceText = importedSubtitles?.segments ?? sourceTranscript?.segments ?? (isReviewing ? analysisResult?.segments : undefined);
+  const runEstimate = sourceText
+    ? estimateRunCost({ sourceChars: sourceText.reduce((n, s) => n + s.original.length, 0), generateDub }, appSettings.prices)
+    : mediaDuration && videoFile
+      ? estimateRunCost({ mediaSeconds: mediaDuration, media: isLongMedia(videoFile) ? 'audio' : 'video', generateDub }, appSettings.prices)
+      : null;
+  const spendingCapReached = spendingCap !== null && sessionCost >= spendingCap;
+  const overSpendingCap = spendingCap !== null && sessionCost + (runEstimate?.total ?? 0) > spendingCap;
 
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const videoRef = useRef<HTMLVideoElement>(null);
+  const subtitleInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Callback ref (state) so the playback sync sees the element mount and unmount
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+  // Refs rather than state so overlapping autosaves agree on the project and stored media
+  const projectIdRef = useRef<string | null>(null);
+  const savedMediaRef = useRef<File | null>(null);
+  // Clips as last saved, so autosaving an edit does not rewrite unchanged audio
+  const savedClipsRef = useRef<{ languageCode: string; clips: ProjectClips } | null>(null);
+  // Language of the latest switch, so a slower lookup for an earlier one is dropped
+  const languageSwitchRef = useRef<string | null>(null);
+
+  // The dub is re-laid out whenever clips or segment timings change (re-voice, edits, undo/redo)
+  const dubTrack = useMemo(() => {
+    if (!analysisResult || dubClips.every(clip => !clip)) return null;
+    return assembleDubTrack(analysisResult.segments, dubClips);
+  }, [analysisResult, dubClips]);
+  const generatedAudioBase64 = dubTrack?.audioBase64 ?? null;
+  const dubReports = dubTrack?.reports ?? [];
+
+  const playback = useSyncedDub(videoElement, dubTrack, {
+    segments: analysisResult?.segments ?? NO_SEGMENTS,
+    dubEnabled: playDub,
+    originalAudio,
+  });
+
+  // Remount the player whenever the track is rebuilt
+  useEffect(() => {
+    setDubVersion(v => v + 1);
+  }, [dubTrack]);
 
   // Clean up Object URL
   useEffect(() => {
@@ -42,13 +181,24 @@ const App: React.FC = () => {
   }, [videoUrl]);
 
   const resetState = () => {
+    abortControllerRef.current?.abort();
     setVideoFile(null);
     if (videoUrl) URL.revokeObjectURL(videoUrl);
     setVideoUrl(null);
-    setAnalysisResult(null);
-    setGeneratedAudioBase64(null);
+    transcript.reset(null);
+    setSourceTranscript(null);
+    setDubClips([]);
+    setSegmentError(null);
+    setImportedSubtitles(null);
+    setResultLangCode(null);
+    setProjectUsage(EMPTY_USAGE);
+    setMediaDuration(null);
     setStatus(TranslationStatus.IDLE);
     setErrorMsg(null);
+    projectIdRef.current = null;
+    savedMediaRef.current = null;
+    savedClipsRef.current = null;
+    setProjectId(null);
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -58,8 +208,17 @@ const App: React.FC = () => {
   };
 
   const loadVideoFile = (file: File) => {
-    if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
-      setErrorMsg(`File too large. Please select a video under ${MAX_FILE_SIZE_MB}MB.`);
+    // With imported captions the video is only a local preview and is never uploaded,
+    // so neither the size limit nor a reset applies
+    if (importedSubtitles) {
+      if (videoUrl) URL.revokeObjectURL(videoUrl);
+      setVideoFile(file);
+      setVideoUrl(URL.createObjectURL(file));
+      return;
+    }
+
+    if (file.size > MAX_LONG_MEDIA_SIZE_MB * 1024 * 1024) {
+      setErrorMsg(`File too large. Please select a video under ${MAX_LONG_MEDIA_SIZE_MB}MB.`);
       return;
     }
 
@@ -88,60 +247,444 @@ const App: React.FC = () => {
     }
   };
 
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        const result = reader.result as string;
-        // Remove "data:video/mp4;base64," prefix
-        const base64 = result.split(',')[1];
-        resolve(base64);
-      };
-      reader.onerror = error => reject(error);
-    });
+  const handleSubtitleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = '';
+
+    try {
+      const segments = parseSubtitles(await file.text());
+      if (segments.length === 0) {
+        setErrorMsg("No timed captions found. Please select a valid SRT or WebVTT file.");
+        return;
+      }
+      resetState();
+      setImportedSubtitles({ fileName: file.name, segments });
+    } catch (err) {
+      console.error(err);
+      setErrorMsg("Could not read the subtitle file.");
+    }
   };
 
-  const handleProcessVideo = async () => {
-    if (!videoFile) return;
+  const handlePipelineProgress = (event: PipelineEvent) => {
+    if (event.type === 'status') {
+      setStatus(event.status);
+      setProgressMessage(event.message);
+    } else if (event.type === 'chunks') {
+      setChunkProgress(event.chunks);
+    } else if (event.type === 'partial') {
+      // Lines are shown as they stream in; the final result replaces them
+      transcript.reset(event.result);
+    } else if (event.type === 'progress') {
+      setProgress(event.fraction);
+    }
+  };
+
+  // First stage only: transcribe the media and stop, so the transcript can be checked before it is translated
+  const handleTranscribe = async (file: File) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    // Restored if the run ends early, so streamed lines do not linger
+    const transcriptBefore = analysisResult;
 
     try {
-      setStatus(TranslationStatus.UPLOADING);
-      setProgressMessage("Reading video file...");
-      
-      const base64Video = await fileToBase64(videoFile);
-      
-      setStatus(TranslationStatus.ANALYZING);
-      setProgressMessage("AI is analyzing and translating audio...");
-      
-      // Step 1: Analyze & Translate
-      const result = await analyzeAndTranslateVideo(base64Video, videoFile.type, targetLang.name);
-      setAnalysisResult(result);
-      
-      if (!result.segments || result.segments.length === 0) {
-        throw new Error("No speech detected in this video to translate.");
+      setChunkProgress([]);
+      setProgress(null);
+      setErrorMsg(null);
+
+      const source = await transcribeSource(file, {
+        provider: metered.project,
+        signal: controller.signal,
+        sourceLanguage,
+        mediaDuration: mediaDuration ?? undefined,
+        onEvent: handlePipelineProgress,
+      });
+      transcript.reset(source);
+      setResultLangCode(null);
+      setDubClips([]);
+      setSegmentError(null);
+      setStatus(TranslationStatus.AWAITING_REVIEW);
+    } catch (err: any) {
+      transcript.reset(transcriptBefore);
+      if (isCancellation(err)) {
+        setStatus(TranslationStatus.IDLE);
+        return;
       }
+      console.error(err);
+      setStatus(TranslationStatus.ERROR);
+      setErrorMsg(describeError(err));
+    } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+    }
+  };
 
-      // Combine all translated segments for TTS
-      // In a real app, we might generate TTS per segment to sync. 
-      // For this demo, we generate one continuous stream.
-      const fullTranslatedText = result.segments.map(s => s.translated).join(". ");
-      
-      setStatus(TranslationStatus.GENERATING_SPEECH);
-      setProgressMessage(`Generating ${targetLang.name} speech with voice ${targetLang.voiceName}...`);
+  const handleTranslate = async (source: PipelineSource) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
+    // Cancelling before the translation arrives goes back to the transcript under review, if any
+    const statusBefore = status;
+    const transcriptBefore = analysisResult;
+    let result: AnalysisResult | null = null;
+
+    try {
+      setChunkProgress([]);
+      setProgress(null);
+      setErrorMsg(null);
+
+      const { clips } = await runTranslationPipeline(source, {
+        provider: metered.project,
+        targetLanguage: targetLang,
+        voiceName: projectVoice,
+        generateDub,
+        speechStyle,
+        signal,
+        sourceLanguage,
+        glossary,
+        translationStyle,
+        mediaDuration: mediaDuration ?? undefined,
+        onEvent: (event) => {
+          handlePipelineProgress(event);
+          if (event.type === 'source') {
+            setSourceTranscript(event.result);
+          } else if (event.type === 'transcript') {
+            result = event.result;
+            transcript.reset(event.result);
+            setResultLangCode(targetLang.code);
+            setDubClips([]);
+            setSegmentError(null);
+          }
+        },
+      });
 
-      // Step 2: Generate Audio
-      const audioBase64 = await generateSpeech(fullTranslatedText, targetLang.voiceName);
-      setGeneratedAudioBase64(audioBase64);
+      // The clips are laid out on a timeline matching the video (see `dubTrack`)
+      if (generateDub) setDubClips(clips);
 
       setStatus(TranslationStatus.COMPLETED);
     } catch (err: any) {
+      // Partial lines are dropped; a finished transcript is kept
+      if (!result) transcript.reset(transcriptBefore);
+      if (isCancellation(err)) {
+        // Keep a transcript that already arrived; only the dub is missing
+        setStatus(result?.segments.length ? TranslationStatus.COMPLETED
+          : statusBefore === TranslationStatus.AWAITING_REVIEW ? TranslationStatus.AWAITING_REVIEW
+          : TranslationStatus.IDLE);
+        return;
+      }
       console.error(err);
       setStatus(TranslationStatus.ERROR);
-      setErrorMsg(err.message || "An unexpected error occurred during processing.");
+      setErrorMsg(describeError(err));
+    } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+    }
+  };
+
+  const handleProcessVideo = () => {
+    if (overSpendingCap) return;
+    if (importedSubtitles) {
+      handleTranslate({ kind: 'transcript', segments: importedSubtitles.segments });
+    } else if (sourceTranscript) {
+      // Already transcribed (and reviewed): only the text is translated
+      handleTranslate({ kind: 'transcript', segments: sourceTranscript.segments, base: sourceTranscript });
+    } else if (videoFile) {
+      if (reviewBeforeTranslating) handleTranscribe(videoFile);
+      else handleTranslate({ kind: 'media', file: videoFile });
+    }
+  };
+
+  // Second stage after review: the edited transcript becomes the source for every language
+  const handleApproveTranscript = () => {
+    if (!analysisResult || overSpendingCap) return;
+    setSourceTranscript(analysisResult);
+    handleTranslate({ kind: 'transcript', segments: analysisResult.segments, base: analysisResult });
+  };
+
+  const handleDiscardTranscript = () => {
+    transcript.reset(null);
+    setStatus(TranslationStatus.IDLE);
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const updateSegment = (index: number, segment: Segment) => {
+    transcript.set(prev => prev && {
+      ...prev,
+      segments: prev.segments.map((s, i) => (i === index ? segment : s)),
+    });
+  };
+
+  const handleRetranslateSegment = async (index: number) => {
+    if (!analysisResult) return;
+    const segments = analysisResult.segments;
+
+    setBusySegment({ index, action: 'translate' });
+    setSegmentError(null);
+    try {
+      const translated = await metered.project.translateLine(segments[index].original, targetLang.name, {
+        before: segments.slice(Math.max(0, index - 2), index).map(s => s.original),
+        after: segments.slice(index + 1, index + 3).map(s => s.original),
+      }, { sourceLanguage, glossary, translationStyle });
+      updateSegment(index, { ...segments[index], translated });
+    } catch (err: any) {
+      console.error(err);
+      setSegmentError({ index, message: describeError(err) });
+    } finally {
+      setBusySegment(null);
+    }
+  };
+
+  const lengthBudgets = analysisResult
+    ? analysisResult.segments.map(segment => lengthBudget(segment, translationStyle.maxCharsPerSecond))
+    : [];
+  const overBudgetCount = lengthBudgets.filter(isOverBudget).length;
+
+  const handleShortenSegment = async (index: number) => {
+    if (!analysisResult) return;
+    const segment = analysisResult.segments[index];
+
+    setBusySegment({ index, action: 'shorten' });
+    setSegmentError(null);
+    try {
+      const translated = await metered.project.shortenLine(
+        segment.original,
+        segment.translated,
+        targetLang.name,
+        lengthBudgets[index].maxChars,
+        { sourceLanguage, glossary, translationStyle }
+      );
+      updateSegment(index, { ...segment, translated });
+    } catch (err: any) {
+      console.error(err);
+      setSegmentError({ index, message: describeError(err) });
+    } finally {
+      setBusySegment(null);
+    }
+  };
+
+  const voiceFor = (segment: Segment) => voiceForSegment(segment, analysisResult?.speakers, projectVoice);
+
+  const staleClips = analysisResult
+    ? analysisResult.segments.map((segment, i) =>
+        dubClips.length > 0 && isClipStale(segment, dubClips[i], { voiceName: voiceFor(segment), style: speechStyle }))
+    : [];
+  const staleCount = staleClips.filter(Boolean).length;
+
+  // Checked against the glossary of the language the transcript is actually in
+  const glossaryViolations = useMemo(() => {
+    const byIndex: GlossaryViolation[][] = [];
+    if (!analysisResult || isReviewing) return byIndex;
+    const entries = glossaryForLanguage(appSettings.glossary, resultLangCode);
+    for (const violation of checkGlossary(analysisResult.segments, entries)) {
+      (byIndex[violation.segmentIndex] ??= []).push(violation);
+    }
+    return byIndex;
+  }, [analysisResult, appSettings.glossary, resultLangCode, isReviewing]);
+  const glossaryViolationCount = glossaryViolations.filter(Boolean).length;
+
+  const handleSpeakersChange = (speakers: Speaker[]) => {
+    if (!analysisResult) return;
+    transcript.set({ ...analysisResult, speakers });
+  };
+
+  const handleRevoiceSegment = async (index: number) => {
+    if (!analysisResult) return;
+    const segments = analysisResult.segments;
+
+    setBusySegment({ index, action: 'voice' });
+    setSegmentError(null);
+    try {
+      const clip = await synthesizeSegmentClip(segments[index], metered.project.synthesize, voiceFor(segments[index]), { style: speechStyle });
+      setDubClips(prev => {
+        const next = prev.length === segments.length ? [...prev] : segments.map((_, i) => prev[i] ?? null);
+        next[index] = clip;
+        return next;
+      });
+    } catch (err: any) {
+      console.error(err);
+      setSegmentError({ index, message: describeError(err) });
+    } finally {
+      setBusySegment(null);
+    }
+  };
+
+  // Re-voices every line whose clip is outdated, e.g. after a speaker's voice was changed
+  const handleRevoiceStale = async () => {
+    for (let index = 0; index < staleClips.length; index++) {
+      if (staleClips[index]) await handleRevoiceSegment(index);
+    }
+  };
+
+  const audioFilenameBase = `${baseFilename(importedSubtitles?.fileName ?? videoFile?.name)}.${targetLang.code}`;
+
+  const handleDownloadDub = async () => {
+    if (!dubTrack) return;
+    try {
+      const { blob, extension } = await encodeAudio(dubTrack.audioBase64, audioFormat, dubTrack.sampleRate);
+      downloadBlob(blob, `${audioFilenameBase}.dub.${extension}`);
+    } catch (err) {
+      console.error(err);
+      setErrorMsg(describeError(err));
     }
   };
 
+  const handleDownloadClip = async (index: number) => {
+    const clip = dubClips[index];
+    if (!clip) return;
+    try {
+      const { blob, extension } = await encodeAudio(clip.audioBase64, audioFormat);
+      downloadBlob(blob, `${audioFilenameBase}.${String(index + 1).padStart(3, '0')}.${extension}`);
+    } catch (err) {
+      console.error(err);
+      setSegmentError({ index, message: describeError(err) });
+    }
+  };
+
+  const isProcessing = status !== TranslationStatus.IDLE && status !== TranslationStatus.COMPLETED
+    && status !== TranslationStatus.ERROR && status !== TranslationStatus.AWAITING_REVIEW;
+
+  const persistProject = async () => {
+    if (!analysisResult || !resultLangCode) return;
+
+    const id = projectIdRef.current ?? createProjectId();
+    projectIdRef.current = id;
+    const existing = await getProject(id);
+
+    const project: Project = {
+      id,
+      name: existing?.name ?? (videoFile?.name || importedSubtitles?.fileName || 'Untitled project'),
+      createdAt: existing?.createdAt ?? Date.now(),
+      updatedAt: Date.now(),
+      media: videoFile ? { name: videoFile.name, type: videoFile.type, size: videoFile.size } : null,
+      importedSubtitles,
+      sourceTranscript,
+      languages: { ...existing?.languages, [resultLangCode]: { result: analysisResult } },
+      settings: { targetLangCode: targetLang.code, sourceLangCode, generateDub, voiceName, speechStyle, translationStyle },
+      usage: projectUsage,
+    };
+
+    const mediaChanged = savedMediaRef.current !== videoFile;
+    const savedClips = savedClipsRef.current;
+    const clips = { languageCode: resultLangCode, clips: dubClips };
+    const clipsChanged = savedClips?.languageCode !== resultLangCode || savedClips.clips !== dubClips;
+    await saveProject(project, mediaChanged ? videoFile : undefined, clipsChanged ? clips : undefined);
+    savedMediaRef.current = videoFile;
+    savedClipsRef.current = clips;
+    setProjectId(id);
+    setHistoryRefreshKey(k => k + 1);
+  };
+
+  // Autosave results and edits once a run has finished
+  useEffect(() => {
+    if (!analysisResult || isProcessing) return;
+    const timer = setTimeout(() => {
+      persistProject().catch(err => console.error("Could not save project:", err));
+    }, 800);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [analysisResult, dubClips, generateDub, voiceName, speechStyle, sourceLangCode, translationStyle, projectUsage, videoFile, importedSubtitles, sourceTranscript, isProcessing]);
+
+  const handleOpenProject = async (id: string) => {
+    languageSwitchRef.current = null;
+    try {
+      const project = await getProject(id);
+      if (!project) return;
+      const media = project.media ? await getProjectMedia(id) : undefined;
+
+      resetState();
+      let file: File | null = null;
+      if (project.media && media) {
+        file = new File([media], project.media.name, { type: project.media.type });
+        setVideoFile(file);
+        setVideoUrl(URL.createObjectURL(file));
+      }
+      setImportedSubtitles(project.importedSubtitles);
+      setSourceTranscript(project.sourceTranscript ?? null);
+      setGenerateDub(project.settings.generateDub);
+      setVoiceName(project.settings.voiceName ?? null);
+      setSpeechStyle(project.settings.speechStyle ?? {});
+      setSourceLangCode(project.settings.sourceLangCode ?? null);
+      setTranslationStyle(project.settings.translationStyle ?? {});
+      setProjectUsage(project.usage ?? EMPTY_USAGE);
+
+      const lang = findLanguage(project.settings.targetLangCode, languages) ?? targetLang;
+      setTargetLang(lang);
+      const [langCode, entry] = project.languages[lang.code]
+        ? [lang.code, project.languages[lang.code]]
+        : Object.entries(project.languages)[0] ?? [null, null];
+      if (entry && langCode) {
+        const clips = await getProjectClips(id, langCode);
+        transcript.reset(entry.result);
+        setDubClips(clips);
+        savedClipsRef.current = { languageCode: langCode, clips };
+        setResultLangCode(langCode);
+        setStatus(TranslationStatus.COMPLETED);
+      }
+
+      projectIdRef.current = id;
+      savedMediaRef.current = file;
+      setProjectId(id);
+      setMode('single');
+      setIsHistoryOpen(false);
+    } catch (err) {
+      console.error(err);
+      setErrorMsg("Could not open the saved project.");
+    }
+  };
+
+  const handleTargetLangChange = async (lang: LanguageOption) => {
+    setTargetLang(lang);
+    languageSwitchRef.current = lang.code;
+    // Switching to a language this project already has restores it instead of waiting for a re-run
+    if (!projectIdRef.current || lang.code === resultLangCode || isReviewing) return;
+    const id = projectIdRef.current;
+    try {
+      const entry = (await getProject(id))?.languages[lang.code];
+      const clips = entry ? await getProjectClips(id, lang.code) : [];
+      if (!entry || languageSwitchRef.current !== lang.code || projectIdRef.current !== id) return;
+      transcript.reset(entry.result);
+      setDubClips(clips);
+      savedClipsRef.current = { languageCode: lang.code, clips };
+      setResultLangCode(lang.code);
+      setSegmentError(null);
+    } catch (err) {
+      console.error(err);
+      setErrorMsg(`Could not load the saved ${lang.name} translation.`);
+    }
+  };
+
+  const handleSettingsChange = (next: AppSettings) => {
+    saveSettings(next);
+    setAppSettings(next);
+    // Fall back to built-ins if the selected languages were removed
+    const available = getLanguages(next);
+    if (!findLanguage(targetLang.code, available)) setTargetLang(LANGUAGES[1]);
+    if (!findLanguage(sourceLangCode, available)) setSourceLangCode(null);
+  };
+
+  const handleGlossaryChange = (entries: GlossaryEntry[]) => handleSettingsChange({ ...appSettings, glossary: entries });
+  const handlePricesChange = (prices: PriceTable) => handleSettingsChange({ ...appSettings, prices });
+  const handleSpendingCapChange = (spendingCapUsd: number | null) => handleSettingsChange({ ...appSettings, spendingCapUsd });
+  const handleCacheLimitChange = (cacheLimitMb: number) => handleSettingsChange({ ...appSettings, cacheLimitMb });
+
+  // A transcript made with another source language is stale; the next run transcribes again
+  const handleSourceLangChange = (code: string | null) => {
+    setSourceLangCode(code);
+    setSourceTranscript(null);
+  };
+
+  const handleProjectDeleted = (id: string) => {
+    if (projectIdRef.current === id) {
+      projectIdRef.current = null;
+      savedMediaRef.current = null;
+      savedClipsRef.current = null;
+      setProjectId(null);
+    }
+  };
+
+  const hasSource = Boolean(videoFile || importedSubtitles);
+
   const resetApp = () => {
     resetState();
     // Clear input value so same file can be selected again if needed
@@ -159,16 +702,120 @@ const App: React.FC = () => {
             </div>
             <h1 className="text-xl font-bold tracking-tight">Gemini Video Translator</h1>
           </div>
-          <div className="text-sm text-slate-400 hidden sm:block">
-            Powered by Gemini 2.5 Flash & TTS
+          <div className="flex items-center gap-4">
+            <div className="flex bg-slate-800 border border-slate-700 rounded-lg p-0.5 text-sm">
+              {(['single', 'batch'] as const).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`px-3 py-1 rounded-md transition-colors ${mode === m ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                >
+                  {m === 'single' ? 'Single' : 'Batch'}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setIsHistoryOpen(true)}
+              className="flex items-center gap-1.5 text-sm text-slate-400 hover:text-white transition-colors"
+              title="Saved projects"
+            >
+              <History size={16} /> History
+            </button>
+            <button
+              onClick={() => setIsLanguagesOpen(true)}
+              className="flex items-center gap-1.5 text-sm text-slate-400 hover:text-white transition-colors"
+              title="Manage languages"
+            >
+              <Settings size={16} /> Languages
+            </button>
+            <button
+              onClick={() => setIsGlossaryOpen(true)}
+              className="flex items-center gap-1.5 text-sm text-slate-400 hover:text-white transition-colors"
+              title="Terminology rules for translations"
+            >
+              <BookOpen size={16} /> Glossary
+            </button>
+            <button
+              onClick={() => setIsUsageOpen(true)}
+              className="flex items-center gap-1.5 text-sm text-slate-400 hover:text-white transition-colors"
+              title="Token usage and cost"
+            >
+              <Gauge size={16} /> {formatCost(sessionCost)}
+            </button>
+            <button
+              onClick={() => setIsCacheOpen(true)}
+              className="flex items-center gap-1.5 text-sm text-slate-400 hover:text-white transition-colors"
+              title="Cached transcripts, translations and speech"
+            >
+              <Database size={16} /> Cache
+            </button>
+            <div className="text-sm text-slate-400 hidden sm:block">
+              Powered by {provider.label}
+            </div>
           </div>
         </div>
       </header>
 
+      <ProjectHistory
+        isOpen={isHistoryOpen}
+        activeProjectId={projectId}
+        refreshKey={historyRefreshKey}
+        onClose={() => setIsHistoryOpen(false)}
+        onOpen={handleOpenProject}
+        onDeleted={handleProjectDeleted}
+      />
+
+      <LanguageSettings
+        isOpen={isLanguagesOpen}
+        settings={appSettings}
+        onClose={() => setIsLanguagesOpen(false)}
+        onChange={handleSettingsChange}
+      />
+
+      <GlossaryManager
+        isOpen={isGlossaryOpen}
+        entries={appSettings.glossary}
+        languages={languages}
+        onClose={() => setIsGlossaryOpen(false)}
+        onChange={handleGlossaryChange}
+      />
+
+      <UsagePanel
+        isOpen={isUsageOpen}
+        session={sessionUsage}
+        project={analysisResult ? projectUsage : null}
+        prices={appSettings.prices}
+        spendingCapUsd={appSettings.spendingCapUsd}
+        onClose={() => setIsUsageOpen(false)}
+        onPricesChange={handlePricesChange}
+        onSpendingCapChange={handleSpendingCapChange}
+      />
+
+      <CachePanel
+        isOpen={isCacheOpen}
+        store={resultCache}
+        limitMb={appSettings.cacheLimitMb}
+        onClose={() => setIsCacheOpen(false)}
+        onLimitChange={handleCacheLimitChange}
+      />
+
       <main className="flex-1 max-w-7xl mx-auto px-4 py-8 w-full flex flex-col gap-8">
+
+        {/* Batch mode stays mounted so a running queue survives switching tabs */}
+        <div className={mode === 'batch' ? '' : 'hidden'}>
+          <BatchQueue
+            provider={metered.session}
+            availableLanguages={languages}
+            glossary={appSettings.glossary}
+            blockedReason={spendingCapReached ? `The session spending cap of ${formatCost(spendingCap!)} has been reached.` : null}
+          />
+        </div>
+
+        {mode === 'single' && (
+          <>
         
         {/* Step 1: Upload */}
-        {!videoFile && (
+        {!hasSource && (
           <div className="flex-1 flex flex-col items-center justify-center min-h-[50vh]">
             <div className="max-w-md w-full text-center space-y-6">
               
@@ -180,7 +827,8 @@ const App: React.FC = () => {
                   </div>
                   <div>
                     <h3 className="text-lg font-semibold text-white">Upload Video</h3>
-                    <p className="text-slate-400 mt-1 text-sm">MP4, WEBM, MOV (Max {MAX_FILE_SIZE_MB}MB)</p>
+                    <p className="text-slate-400 mt-1 text-sm">MP4, WEBM, MOV (Max {MAX_LONG_MEDIA_SIZE_MB}MB)</p>
+                    <p className="text-slate-500 mt-1 text-xs">Files over {MAX_FILE_SIZE_MB}MB are transcribed in parts</p>
                   </div>
                   <Button variant="outline" className="mt-2">Select File</Button>
                 </div>
@@ -204,11 +852,19 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              {/* Caption Import Section */}
+              <div className="w-full">
+                <p className="text-slate-400 text-sm mb-3">Already have captions? Translate them without uploading the video:</p>
+                <Button variant="outline" className="w-full" onClick={() => subtitleInputRef.current?.click()}>
+                  <FileText size={16} className="mr-2" /> Import SRT / VTT
+                </Button>
+              </div>
+
               <input 
                 type="file" 
-                ref={fileInputRef} 
-                onChange={handleFileChange} 
-                accept="video/*" 
+                ref={subtitleInputRef} 
+                onChange={handleSubtitleChange} 
+                accept=".srt,.vtt,text/vtt,application/x-subrip" 
                 className="hidden" 
               />
               {errorMsg && (
@@ -220,20 +876,65 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {/* Video input is shared by the upload screen and the caption preview */}
+        <input 
+          type="file" 
+          ref={fileInputRef} 
+          onChange={handleFileChange} 
+          accept="video/*" 
+          className="hidden" 
+        />
+
         {/* Step 2: Configure & Preview */}
-        {videoFile && (
+        {hasSource && (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 animate-fade-in">
             
             {/* Left Col: Source Video & Settings */}
             <div className="space-y-6">
               <div className="bg-slate-800 rounded-xl overflow-hidden shadow-2xl border border-slate-700 relative group">
                  {/* Video Player */}
-                 <video 
-                  ref={videoRef}
-                  src={videoUrl || undefined} 
-                  controls 
-                  className="w-full aspect-video bg-black object-contain"
-                />
+                 {videoUrl ? (
+                   <video 
+                    ref={setVideoElement}
+                    src={videoUrl} 
+                    onLoadedMetadata={(e) => setMediaDuration(e.currentTarget.duration)}
+                    controls 
+                    className="w-full aspect-video bg-black object-contain"
+                  />
+                 ) : (
+                   <div className="w-full aspect-video bg-slate-900 flex flex-col items-center justify-center gap-3 text-slate-400">
+                     <FileText size={40} className="opacity-60" />
+                     <p className="text-sm">No video attached — captions only</p>
+                     <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                       Attach Video for Preview
+                     </Button>
+                   </div>
+                 )}
+                 {videoUrl && dubTrack && (
+                   <div className="flex items-center gap-4 px-4 py-2 border-t border-slate-700 text-xs text-slate-300">
+                     <label className="flex items-center gap-2 cursor-pointer">
+                       <input
+                         type="checkbox"
+                         checked={playDub}
+                         onChange={(e) => setPlayDub(e.target.checked)}
+                         className="rounded border-slate-600 bg-slate-900 text-blue-500 focus:ring-blue-500"
+                       />
+                       Play dub with video
+                     </label>
+                     <label className="flex items-center gap-2 ml-auto">
+                       Original audio
+                       <select
+                         value={originalAudio}
+                         onChange={(e) => setOriginalAudio(e.target.value as OriginalAudioMode)}
+                         className="bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-xs text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                       >
+                         <option value="full">Full</option>
+                         <option value="ducked">Ducked</option>
+                         <option value="muted">Muted</option>
+                       </select>
+                     </label>
+                   </div>
+                 )}
                 <button 
                   onClick={resetApp}
                   className="absolute top-4 right-4 bg-black/60 hover:bg-black/80 text-white p-2 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
@@ -246,53 +947,178 @@ const App: React.FC = () => {
 
               {/* Controls */}
               <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 space-y-6">
+                {importedSubtitles && (
+                  <div className="flex items-center gap-2 text-sm text-slate-300 bg-slate-900/60 border border-slate-700 rounded-lg px-3 py-2">
+                    <FileText size={16} className="text-blue-400 shrink-0" />
+                    <span className="truncate">
+                      {importedSubtitles.fileName} • {importedSubtitles.segments.length} lines
+                      {videoFile && ' • video is preview only and will not be uploaded'}
+                    </span>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
                     <Languages size={16} /> Target Language
                   </label>
                   <select 
                     value={targetLang.code}
-                    onChange={(e) => setTargetLang(LANGUAGES.find(l => l.code === e.target.value) || LANGUAGES[0])}
-                    disabled={status !== TranslationStatus.IDLE && status !== TranslationStatus.COMPLETED && status !== TranslationStatus.ERROR}
+                    onChange={(e) => handleTargetLangChange(findLanguage(e.target.value, languages) || languages[0])}
+                    disabled={isProcessing}
                     className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-2.5 text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
                   >
-                    {LANGUAGES.map(lang => (
+                    {languages.map(lang => (
                       <option key={lang.code} value={lang.code}>
-                        {lang.name} (Voice: {lang.voiceName})
+                        {lang.name}
                       </option>
                     ))}
                   </select>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+                    <Globe size={16} /> Source Language
+                  </label>
+                  <select
+                    value={sourceLangCode ?? ''}
+                    onChange={(e) => handleSourceLangChange(e.target.value || null)}
+                    disabled={isProcessing || isReviewing}
+                    className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-2.5 text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
+                  >
+                    <option value="">Auto-detect</option>
+                    {languages.map(lang => (
+                      <option key={lang.code} value={lang.code}>
+                        {lang.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-slate-500 mt-1">Set this when detection is wrong, e.g. for accented or mixed-language speech.</p>
+                </div>
+
+                <TranslationStylePanel style={translationStyle} disabled={isProcessing} onChange={setTranslationStyle} />
+
+                <VoicePicker
+                  voiceName={voiceName}
+                  defaultVoice={targetLang.voiceName}
+                  style={speechStyle}
+                  synthesize={metered.session.synthesize}
+                  disabled={isProcessing}
+                  onVoiceChange={setVoiceName}
+                  onStyleChange={setSpeechStyle}
+                />
+
+                {staleCount > 0 && !isProcessing && (
+                  <Button variant="outline" onClick={handleRevoiceStale} disabled={busySegment !== null} className="w-full text-sm">
+                    Re-voice {staleCount} outdated line{staleCount === 1 ? '' : 's'}
+                  </Button>
+                )}
+
+                <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={generateDub}
+                    onChange={(e) => setGenerateDub(e.target.checked)}
+                    disabled={isProcessing}
+                    className="rounded border-slate-600 bg-slate-900 text-blue-500 focus:ring-blue-500"
+                  />
+                  Generate dubbed audio
+                </label>
+
+                {!importedSubtitles && !sourceTranscript && (
+                  <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={reviewBeforeTranslating}
+                      onChange={(e) => setReviewBeforeTranslating(e.target.checked)}
+                      disabled={isProcessing || isReviewing}
+                      className="rounded border-slate-600 bg-slate-900 text-blue-500 focus:ring-blue-500"
+                    />
+                    Review transcript before translating
+                  </label>
+                )}
+
                 {status === TranslationStatus.IDLE || status === TranslationStatus.ERROR ? (
                   <Button 
                     onClick={handleProcessVideo} 
                     className="w-full py-3 text-lg"
-                    disabled={!videoFile}
+                    disabled={!hasSource || overSpendingCap}
                   >
-                    Translate Video
+                    {importedSubtitles ? 'Translate Captions'
+                      : sourceTranscript ? 'Translate Transcript'
+                      : reviewBeforeTranslating ? 'Transcribe Video'
+                      : 'Translate Video'}
                   </Button>
+                ) : status === TranslationStatus.AWAITING_REVIEW ? (
+                  <div className="space-y-2">
+                    <Button onClick={handleApproveTranscript} className="w-full py-3 text-lg" disabled={overSpendingCap}>
+                      Translate to {targetLang.name}
+                    </Button>
+                    <Button variant="ghost" onClick={handleDiscardTranscript} className="w-full text-sm">
+                      Discard transcript
+                    </Button>
+                  </div>
                 ) : status === TranslationStatus.COMPLETED ? (
-                  <Button onClick={handleProcessVideo} variant="outline" className="w-full">
-                    Regenerate
+                  <Button onClick={handleProcessVideo} variant="outline" className="w-full" disabled={overSpendingCap}>
+                    {resultLangCode === targetLang.code ? 'Regenerate' : `Translate to ${targetLang.name}`}
                   </Button>
                 ) : (
                   <div className="space-y-3">
                     <div className="h-2 w-full bg-slate-700 rounded-full overflow-hidden">
-                      <div className="h-full bg-blue-500 animate-pulse rounded-full w-2/3"></div>
+                      {progress === null ? (
+                        <div className="h-full bg-blue-500/40 animate-pulse rounded-full w-full"></div>
+                      ) : (
+                        <div className="h-full bg-blue-500 rounded-full transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+                      )}
                     </div>
                     <div className="flex items-center justify-center gap-2 text-blue-300 text-sm">
                       <Loader2 size={16} className="animate-spin" />
                       {progressMessage}
                     </div>
+                    <Button variant="ghost" onClick={handleCancel} className="w-full text-sm">
+                      Cancel
+                    </Button>
+                    {chunkProgress.length > 1 && (
+                      <div className="flex gap-1" aria-label="Progress per part">
+                        {chunkProgress.map(chunk => (
+                          <div
+                            key={chunk.window.index}
+                            title={`${formatTimestamp(chunk.window.start)} - ${formatTimestamp(chunk.window.end)}: ${chunk.state}`}
+                            className={`h-1.5 flex-1 rounded-full ${
+                              chunk.state === 'done' ? 'bg-emerald-500'
+                                : chunk.state === 'transcribing' ? 'bg-blue-500 animate-pulse'
+                                : chunk.state === 'error' ? 'bg-red-500'
+                                : 'bg-slate-700'
+                            }`}
+                          />
+                        ))}
+                      </div>
+                    )}
                   </div>
                 )}
                 
+                {!isProcessing && (runEstimate || overSpendingCap) && (
+                  <p className={`text-xs text-center ${overSpendingCap ? 'text-red-300' : 'text-slate-500'}`}>
+                    {overSpendingCap
+                      ? `Blocked by the spending cap: this run (about ${formatCost(runEstimate?.total ?? 0)}) plus ${formatCost(sessionCost)} already spent this session exceeds ${formatCost(spendingCap!)}.`
+                      : `Estimated cost: about ${formatCost(runEstimate!.total)} (analysis ${formatCost(runEstimate!.analysis)}, speech ${formatCost(runEstimate!.tts)})`}
+                  </p>
+                )}
+
                 {status === TranslationStatus.ERROR && (
                    <div className="p-3 bg-red-900/30 border border-red-800 text-red-200 rounded-lg text-sm mt-4">
                    Error: {errorMsg}
                  </div>
                 )}
+
+                {videoFile && analysisResult && analysisResult.segments.length > 0 && !isReviewing && (
+                  <ExportPanel
+                    videoFile={videoFile}
+                    dubTrack={dubTrack}
+                    segments={analysisResult.segments}
+                    filenameBase={`${baseFilename(videoFile.name)}.${targetLang.code}`}
+                    disabled={isProcessing}
+                  />
+                )}
               </div>
             </div>
 
@@ -303,40 +1129,110 @@ const App: React.FC = () => {
                  <div className="bg-slate-800 rounded-xl border border-slate-700 flex flex-col overflow-hidden h-full max-h-[600px]">
                     <div className="p-4 border-b border-slate-700 bg-slate-800/50 flex items-center justify-between">
                       <div>
-                        <h3 className="font-semibold text-white">Translation Result</h3>
+                        <h3 className="font-semibold text-white">{showsSource ? 'Source Transcript' : 'Translation Result'}</h3>
                         <p className="text-xs text-slate-400">
-                          Detected: {analysisResult.detectedLanguage} • {analysisResult.summary}
+                          {analysisResult.detectedLanguage
+                            ? `Detected: ${analysisResult.detectedLanguage} • ${analysisResult.summary}`
+                            : 'Detecting language...'}
                         </p>
+                        {isReviewing && (
+                          <p className="text-xs text-amber-300 mt-1">
+                            Check the lines, timings and speakers, then translate. Every language is translated from this transcript.
+                          </p>
+                        )}
                       </div>
-                      {generatedAudioBase64 && (
-                        <div className="flex items-center gap-2">
-                           {/* Using a key to remount the player if audio changes */}
-                           <AudioPlayer key={generatedAudioBase64.substring(0, 10)} base64Audio={generatedAudioBase64} />
-                        </div>
-                      )}
                     </div>
+
+                    {/* With a video attached the dub plays in sync with it instead */}
+                    {generatedAudioBase64 && !videoUrl && (
+                      <div className="px-4 py-3 border-b border-slate-700">
+                        {/* Using a key to remount the player if audio changes */}
+                        <AudioPlayer
+                          key={dubVersion}
+                          base64Audio={generatedAudioBase64}
+                          sampleRate={dubTrack?.sampleRate}
+                          markers={analysisResult.segments.map(segment => parseTimestamp(segment.start))}
+                        />
+                      </div>
+                    )}
+
+                    {analysisResult.segments.length > 0 && !isReviewing && !isProcessing && (
+                      <SubtitleDownloads
+                        segments={analysisResult.segments}
+                        filenameBase={audioFilenameBase}
+                        className="px-4 py-2 border-b border-slate-700 bg-slate-800/30"
+                      />
+                    )}
+
+                    {dubTrack && (
+                      <AudioDownloads
+                        format={audioFormat}
+                        onFormatChange={setAudioFormat}
+                        onDownload={handleDownloadDub}
+                        className="px-4 py-2 border-b border-slate-700 bg-slate-800/30"
+                      />
+                    )}
+
+                    {analysisResult.speakers && analysisResult.speakers.length > 0 && (
+                      <SpeakerPanel
+                        speakers={analysisResult.speakers}
+                        segments={analysisResult.segments}
+                        staleCount={staleCount}
+                        disabled={isProcessing || busySegment !== null}
+                        onChange={handleSpeakersChange}
+                        className="px-4 py-2 border-b border-slate-700 bg-slate-800/30"
+                      />
+                    )}
+
+                    {analysisResult.warnings && analysisResult.warnings.length > 0 && (
+                      <ValidationWarnings
+                        warnings={analysisResult.warnings}
+                        className="px-4 py-2 border-b border-slate-700 bg-slate-800/30"
+                      />
+                    )}
+
+                    {glossaryViolationCount > 0 && (
+                      <p className="px-4 py-2 border-b border-slate-700 bg-slate-800/30 text-xs text-amber-300">
+                        {glossaryViolationCount === 1 ? '1 line breaks' : `${glossaryViolationCount} lines break`} the glossary. Edit or re-translate the flagged lines.
+                      </p>
+                    )}
+
+                    {overBudgetCount > 0 && (
+                      <p className="px-4 py-2 border-b border-slate-700 bg-slate-800/30 text-xs text-amber-300">
+                        {overBudgetCount === 1 ? '1 line is' : `${overBudgetCount} lines are`} too long for {translationStyle.maxCharsPerSecond} characters per second. Use the scissors to shorten them.
+                      </p>
+                    )}
                     
-                    <div className="overflow-y-auto p-0 flex-1 scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-transparent">
-                      {analysisResult.segments.length > 0 ? (
-                        <div className="divide-y divide-slate-700/50">
-                          {analysisResult.segments.map((segment, idx) => (
-                            <div key={idx} className="p-4 hover:bg-slate-700/30 transition-colors group">
-                              <div className="flex items-center justify-between mb-1">
-                                <span className="text-xs font-mono text-blue-400 bg-blue-400/10 px-1.5 py-0.5 rounded">
-                                  {segment.start} - {segment.end}
-                                </span>
-                              </div>
-                              <p className="text-slate-400 text-sm mb-1">{segment.original}</p>
-                              <p className="text-emerald-300 font-medium">{segment.translated}</p>
-                            </div>
-                          ))}
-                        </div>
-                      ) : (
-                         <div className="p-8 text-center text-slate-500">
-                           No spoken segments detected.
-                         </div>
-                      )}
-                    </div>
+                    {analysisResult.segments.length > 0 ? (
+                      <TranscriptEditor
+                        segments={analysisResult.segments}
+                        dubReports={dubReports}
+                        speakers={analysisResult.speakers}
+                        staleClips={staleClips}
+                        glossaryViolations={glossaryViolations}
+                        lengthBudgets={lengthBudgets}
+                        busy={busySegment}
+                        segmentError={segmentError}
+                        disabled={isProcessing}
+                        canUndo={transcript.canUndo}
+                        canRedo={transcript.canRedo}
+                        onUndo={transcript.undo}
+                        onRedo={transcript.redo}
+                        onChange={updateSegment}
+                        onRetranslate={handleRetranslateSegment}
+                        onRevoice={handleRevoiceSegment}
+                        onShorten={handleShortenSegment}
+                        onDownloadClip={handleDownloadClip}
+                        hasClip={analysisResult.segments.map((_, i) => Boolean(dubClips[i]))}
+                        activeIndex={videoUrl ? playback.activeIndex : null}
+                        onSeek={videoUrl ? (i) => playback.seek(parseTimestamp(analysisResult.segments[i].start)) : undefined}
+                        sourceOnly={showsSource}
+                      />
+                    ) : (
+                       <div className="p-8 text-center text-slate-500">
+                         No spoken segments detected.
+                       </div>
+                    )}
                  </div>
                ) : (
                  <div className="bg-slate-800/50 rounded-xl border border-dashed border-slate-700 flex items-center justify-center h-full min-h-[300px] text-slate-500">
@@ -357,6 +1253,8 @@ const App: React.FC = () => {
 
           </div>
         )}
+          </>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,75 @@
+import { mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { CacheEntryInfo, CacheLayer, CacheStore } from "../services/resultCache";
+
+/**
+ * On-disk `CacheStore` for the CLI, so re-running a script only pays for what changed.
+ * One JSON file per entry under `<dir>/<layer>/<key>.json`; a file's modification time
+ * records when it was last used.
+ */
+
+interface CacheFile {
+  entry: Omit<CacheEntryInfo, 'size' | 'lastUsedAt'>;
+  value: unknown;
+}
+
+const LAYERS: CacheLayer[] = ['transcription', 'translation', 'speech'];
+
+export const createFileCacheStore = (dir: string): CacheStore => {
+  const fileFor = (layer: CacheLayer, key: string) => path.join(dir, layer, `${key}.json`);
+
+  const store: CacheStore = {
+    get: async <T>(key: string) => {
+      for (const layer of LAYERS) {
+        const file = fileFor(layer, key);
+        try {
+          const { value } = JSON.parse(await readFile(file, 'utf8')) as CacheFile;
+          const now = new Date();
+          await utimes(file, now, now);
+          return value as T;
+        } catch {
+          // Missing or unreadable entries count as misses
+        }
+      }
+      return undefined;
+    },
+
+    set: async (entry, value) => {
+      const file = fileFor(entry.layer, entry.key);
+      await mkdir(path.dirname(file), { recursive: true });
+      // Write then rename, so an interrupted run never leaves a truncated entry
+      const temp = `${file}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify({ entry: { ...entry, createdAt: Date.now() }, value } satisfies CacheFile));
+      await rename(temp, file);
+    },
+
+    list: async () => {
+      const entries: CacheEntryInfo[] = [];
+      for (const layer of LAYERS) {
+        const names = await readdir(path.join(dir, layer)).catch(() => [] as string[]);
+        for (const name of names.filter(name => name.endsWith('.json'))) {
+          const file = path.join(dir, layer, name);
+          try {
+            const [{ entry }, stats] = await Promise.all([
+              readFile(file, 'utf8').then(text => JSON.parse(text) as CacheFile),
+              stat(file),
+            ]);
+            entries.push({ ...entry, size: stats.size, lastUsedAt: stats.mtimeMs });
+          } catch {
+            // Skip entries that are being written or were damaged
+          }
+        }
+      }
+      return entries;
+    },
+
+    delete: async (keys) => {
+      await Promise.all(keys.flatMap(key => LAYERS.map(layer => rm(fileFor(layer, key), { force: true }))));
+    },
+
+    clear: async (layer?: CacheLayer) => {
+      await Promise.all((layer ? [layer] : LAYERS).map(name => rm(path.join(dir, name), { recursive: true, force: true })));
+    },
+  };
+  return store;
+};
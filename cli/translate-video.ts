@@ -0,0 +1,316 @@
+#!/usr/bin/env node
+import { readFile, mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { AnalysisResult, LANGUAGES, LanguageOption } from "../types";
+import { getProvider, PROVIDER_IDS } from "../services/providers";
+import { PipelineSource, runTranslationPipeline } from "../services/pipeline";
+import { isLongMedia, MAX_FILE_SIZE_MB } from "../services/media";
+import { assembleDubTrack, SegmentClip } from "../services/dubbing";
+import { base64ToPcm16, encodeWav } from "../services/audio";
+import { exportSubtitles, parseSubtitles, SubtitleFormat } from "../services/subtitles";
+import { glossaryForLanguage, parseGlossaryCsv } from "../services/glossary";
+import { canonicalLanguageCode, findLanguage, languageDisplayName } from "../services/settings";
+import { addUsage, DEFAULT_PRICES, EMPTY_USAGE, totalCost, withUsageTracking } from "../services/usage";
+import { classifyError, describeError, RequestErrorKind } from "../services/request";
+import { setProxyOrigin } from "../services/proxyClient";
+import { baseFilename } from "../services/download";
+import { CacheLayer, withResultCache } from "../services/resultCache";
+import { createFileCacheStore } from "./cache";
+
+/**
+ * Headless front end to the translation pipeline, for scripts and CI:
+ *
+ *   translate-video input.mp4 --to es,fr --out dir --formats srt,vtt,wav,json
+ *
+ * Model calls go through the API proxy (npm run server), like the app's. With --json,
+ * progress is written to stdout as one JSON event per line.
+ */
+
+const USAGE = `Usage: translate-video <input> --to <codes> [options]
+
+Translates a video (or SRT/VTT captions) and writes subtitles, a dubbed audio track and the transcript.
+
+Options:
+  --to <codes>          Target language codes, comma-separated (e.g. es,fr)
+  --out <dir>           Output directory (default: current directory)
+  --formats <list>      Any of srt,vtt,ass,wav,json (default: srt,json); wav generates a dub
+  --from <language>     Language of the speech, when auto-detection gets it wrong
+  --voice <name>        Voice for the first speaker (default: the language's voice)
+  --glossary <file>     Glossary CSV, as exported from the app
+  --max-cps <n>         Keep translations to n characters per second of speech
+  --provider <id>       gemini (default) or mock
+  --api-url <url>       API proxy to use (default: $TRANSLATOR_API_URL or http://localhost:8787)
+  --cache-dir <dir>     Where results are cached (default: <out>/.translate-video-cache)
+  --no-cache            Neither read nor write cached results
+  --json                Write progress as JSON lines on stdout
+  -h, --help            Show this help
+
+Exit codes: 0 done, 1 failed, 2 invalid arguments, 3 API key rejected, 4 rate limit or quota, 130 cancelled.`;
+
+const EXIT_CODES = {
+  ok: 0,
+  failed: 1,
+  usage: 2,
+  auth: 3,
+  quota: 4,
+  cancelled: 130,
+};
+
+const OUTPUT_FORMATS = ['srt', 'vtt', 'ass', 'wav', 'json'] as const;
+type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+const MEDIA_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.mkv': 'video/x-matroska',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.flac': 'audio/flac',
+};
+
+const CAPTION_EXTENSIONS = new Set(['.srt', '.vtt']);
+
+class UsageError extends Error {}
+
+type CliEvent = { event: string; language?: string } & Record<string, unknown>;
+
+const exitCodeFor = (kind: RequestErrorKind): number =>
+  kind === 'auth' ? EXIT_CODES.auth : kind === 'quota' ? EXIT_CODES.quota : kind === 'cancelled' ? EXIT_CODES.cancelled : EXIT_CODES.failed;
+
+const resolveLanguage = (code: string, voice: string | undefined): LanguageOption => {
+  const builtIn = findLanguage(code, LANGUAGES);
+  if (builtIn) return voice ? { ...builtIn, voiceName: voice } : builtIn;
+  const canonical = canonicalLanguageCode(code);
+  if (!canonical) throw new UsageError(`"${code}" is not a language code.`);
+  return { code: canonical, name: languageDisplayName(canonical), voiceName: voice || LANGUAGES[0].voiceName };
+};
+
+const parseList = (value: string | undefined) => (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+const parseArguments = (argv: string[]) => {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        to: { type: 'string' },
+        out: { type: 'string', default: '.' },
+        formats: { type: 'string', default: 'srt,json' },
+        from: { type: 'string' },
+        voice: { type: 'string' },
+        glossary: { type: 'string' },
+        'max-cps': { type: 'string' },
+        provider: { type: 'string', default: 'gemini' },
+        'api-url': { type: 'string' },
+        'cache-dir': { type: 'string' },
+        'no-cache': { type: 'boolean', default: false },
+        json: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    // Unknown options and missing values are usage errors too
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+};
+
+const parseCli = (argv: string[]) => {
+  const { values, positionals } = parseArguments(argv);
+  if (values.help) return null;
+
+  if (positionals.length !== 1) throw new UsageError('Expected exactly one input file.');
+  const languages = parseList(values.to).map(code => resolveLanguage(code, values.voice));
+  if (languages.length === 0) throw new UsageError('--to is required, e.g. --to es,fr');
+
+  const formats = parseList(values.formats);
+  const unknown = formats.filter(format => !OUTPUT_FORMATS.includes(format as OutputFormat));
+  if (unknown.length || formats.length === 0) {
+    throw new UsageError(`Unknown format "${unknown[0] ?? ''}". Choose from ${OUTPUT_FORMATS.join(', ')}.`);
+  }
+
+  if (!PROVIDER_IDS.includes(values.provider!)) {
+    throw new UsageError(`Unknown provider "${values.provider}". Choose from ${PROVIDER_IDS.join(', ')}.`);
+  }
+
+  const maxCps = values['max-cps'] === undefined ? undefined : Number(values['max-cps']);
+  if (maxCps !== undefined && !(maxCps > 0)) throw new UsageError('--max-cps must be a positive number.');
+
+  return {
+    input: positionals[0],
+    languages,
+    formats: formats as OutputFormat[],
+    outDir: values.out!,
+    sourceLanguage: values.from,
+    glossaryFile: values.glossary,
+    maxCharsPerSecond: maxCps,
+    providerId: values.provider!,
+    apiUrl: values['api-url'] || process.env.TRANSLATOR_API_URL || 'http://localhost:8787',
+    cacheDir: values['no-cache'] ? null : values['cache-dir'] || path.join(values.out!, '.translate-video-cache'),
+    json: values.json!,
+  };
+};
+
+const readSource = async (input: string): Promise<PipelineSource> => {
+  const extension = path.extname(input).toLowerCase();
+  const bytes = await readFile(input).catch(() => {
+    throw new UsageError(`Cannot read ${input}.`);
+  });
+
+  if (CAPTION_EXTENSIONS.has(extension)) {
+    const segments = parseSubtitles(bytes.toString('utf8'));
+    if (segments.length === 0) throw new UsageError(`No timed captions found in ${input}.`);
+    return { kind: 'transcript', segments };
+  }
+
+  const type = MEDIA_TYPES[extension];
+  if (!type) throw new UsageError(`Unsupported file type "${extension}". Use a video, an audio file, or SRT/VTT captions.`);
+  const file = new File([bytes], path.basename(input), { type });
+  // Long media is split by decoding its audio track, which needs the browser's Web Audio API
+  if (isLongMedia(file) && typeof OfflineAudioContext === 'undefined') {
+    throw new UsageError(
+      `${input} is over ${MAX_FILE_SIZE_MB} MB. Extract a compressed audio track first (e.g. with ffmpeg) or use the web app.`
+    );
+  }
+  return { kind: 'media', file };
+};
+
+const renderOutput = (format: OutputFormat, language: LanguageOption, result: AnalysisResult, clips: (SegmentClip | null)[]) => {
+  if (format === 'json') return JSON.stringify({ language: language.code, ...result }, null, 2);
+  if (format === 'wav') {
+    const track = assembleDubTrack(result.segments, clips);
+    return encodeWav(base64ToPcm16(track.audioBase64), track.sampleRate);
+  }
+  return exportSubtitles(result.segments, format as SubtitleFormat, { mode: 'translated' }).content;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  let emit: (event: CliEvent) => void = (event) => process.stdout.write(`${JSON.stringify(event)}\n`);
+
+  let cli: ReturnType<typeof parseCli>;
+  let source: PipelineSource;
+  let glossaryEntries: ReturnType<typeof parseGlossaryCsv> = [];
+  try {
+    cli = parseCli(argv);
+    if (!cli) {
+      console.log(USAGE);
+      return EXIT_CODES.ok;
+    }
+    source = await readSource(cli.input);
+    if (cli.glossaryFile) {
+      glossaryEntries = parseGlossaryCsv(await readFile(cli.glossaryFile, 'utf8').catch(() => {
+        throw new UsageError(`Cannot read ${cli!.glossaryFile}.`);
+      }));
+    }
+  } catch (error) {
+    console.error(`translate-video: ${error instanceof Error ? error.message : error}`);
+    if (!(error instanceof UsageError)) return EXIT_CODES.failed;
+    console.error('Run with --help for usage.');
+    return EXIT_CODES.usage;
+  }
+
+  if (!cli.json) {
+    // Human-readable progress on stderr, without repeating identical lines
+    let last = '';
+    emit = (event) => {
+      const text = typeof event.message === 'string' ? event.message
+        : event.event === 'output' ? `Wrote ${event.path}`
+        : event.event === 'error' ? `Failed: ${event.error}`
+        : '';
+      const line = event.language ? `[${event.language}] ${text}` : text;
+      if (!text || line === last) return;
+      process.stderr.write(`${line}\n`);
+      last = line;
+    };
+  }
+
+  setProxyOrigin(cli.apiUrl);
+  let usage = EMPTY_USAGE;
+  const cacheHits: Partial<Record<CacheLayer, number>> = {};
+  const metered = withUsageTracking(getProvider(cli.providerId), record => {
+    usage = addUsage(usage, record, DEFAULT_PRICES);
+  });
+  const provider = cli.cacheDir
+    ? withResultCache(metered, createFileCacheStore(cli.cacheDir), layer => { cacheHits[layer] = (cacheHits[layer] ?? 0) + 1; })
+    : metered;
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+  await mkdir(cli.outDir, { recursive: true });
+
+  const baseName = baseFilename(path.basename(cli.input));
+  const outputs: string[] = [];
+  let exitCode = EXIT_CODES.ok;
+  // The source transcript is reused for every other language, so the media is transcribed once
+  let sourceTranscript: AnalysisResult | null = null;
+
+  for (const language of cli.languages) {
+    const languageSource: PipelineSource = sourceTranscript
+      ? { kind: 'transcript', segments: sourceTranscript.segments, base: sourceTranscript }
+      : source;
+    // Streaming reports progress often; whole percents are enough
+    let lastPercent = -1;
+    try {
+      const { result, clips } = await runTranslationPipeline(languageSource, {
+        provider,
+        targetLanguage: language,
+        voiceName: language.voiceName,
+        generateDub: cli.formats.includes('wav'),
+        signal: controller.signal,
+        sourceLanguage: cli.sourceLanguage,
+        glossary: glossaryForLanguage(glossaryEntries, language.code),
+        translationStyle: cli.maxCharsPerSecond ? { maxCharsPerSecond: cli.maxCharsPerSecond } : undefined,
+        onEvent: (event) => {
+          if (event.type === 'status') emit({ event: 'status', language: language.code, status: event.status, message: event.message });
+          else if (event.type === 'speech') emit({ event: 'speech', language: language.code, done: event.done, total: event.total });
+          else if (event.type === 'chunks') emit({ event: 'chunks', language: language.code, done: event.chunks.filter(c => c.state === 'done').length, total: event.chunks.length });
+          else if (event.type === 'translation') emit({ event: 'translation', language: language.code, done: event.done, total: event.total });
+          else if (event.type === 'transcript') emit({ event: 'transcript', language: language.code, segments: event.result.segments.length });
+          else if (event.type === 'progress') {
+            const percent = Math.floor(event.fraction * 100);
+            if (percent !== lastPercent) emit({ event: 'progress', language: language.code, percent });
+            lastPercent = percent;
+          } else if (event.type === 'source') {
+            sourceTranscript = event.result;
+            emit({ event: 'source', language: language.code, detectedLanguage: event.result.detectedLanguage, segments: event.result.segments.length });
+          }
+        },
+      });
+
+      for (const format of cli.formats) {
+        const file = path.join(cli.outDir, `${baseName}.${language.code}.${format}`);
+        await writeFile(file, renderOutput(format, language, result, clips));
+        outputs.push(file);
+        emit({ event: 'output', language: language.code, format, path: file });
+      }
+    } catch (error) {
+      const classified = classifyError(error);
+      emit({ event: 'error', language: language.code, kind: classified.kind, error: describeError(error) });
+      if (exitCode === EXIT_CODES.ok) exitCode = exitCodeFor(classified.kind);
+      if (classified.kind === 'cancelled' || classified.kind === 'auth') break;
+    }
+  }
+
+  emit({
+    event: 'done',
+    exitCode,
+    outputs,
+    cacheHits,
+    // Rounded like the app's cost display, without float noise
+    usage: { analysis: usage.analysis, tts: usage.tts, costUsd: Number(totalCost(usage).toFixed(3)) },
+    message: exitCode === EXIT_CODES.ok ? `Done: ${outputs.length} file${outputs.length === 1 ? '' : 's'} in ${cli.outDir}` : undefined,
+  });
+  return exitCode;
+};
+
+main(process.argv.slice(2)).then(
+  (code) => { process.exitCode = code; },
+  (error) => {
+    console.error(error);
+    process.exitCode = EXIT_CODES.failed;
+  }
+);
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { Download, Loader2 } from './Icons';
+import { AudioExportFormat, pickCompressedAudioType } from '../services/audioEncoding';
+
+interface AudioDownloadsProps {
+  format: AudioExportFormat;
+  onFormatChange: (format: AudioExportFormat) => void;
+  /** Resolves once the file has been handed to the browser. */
+  onDownload: () => Promise<void>;
+  className?: string;
+}
+
+export const AudioDownloads: React.FC<AudioDownloadsProps> = ({ format, onFormatChange, onDownload, className = '' }) => {
+  const [isEncoding, setIsEncoding] = useState(false);
+  const compressed = pickCompressedAudioType();
+
+  const handleDownload = async () => {
+    setIsEncoding(true);
+    try {
+      await onDownload();
+    } finally {
+      setIsEncoding(false);
+    }
+  };
+
+  return (
+    <div className={`flex items-center gap-2 flex-wrap ${className}`}>
+      <span className="text-xs text-slate-400">Audio:</span>
+      <select
+        value={format}
+        onChange={(e) => onFormatChange(e.target.value as AudioExportFormat)}
+        className="bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-xs text-white focus:ring-2 focus:ring-blue-500 outline-none"
+      >
+        <option value="wav">WAV</option>
+        {compressed && <option value="compressed">{compressed.extension.toUpperCase()} (smaller)</option>}
+      </select>
+      <button
+        onClick={handleDownload}
+        disabled={isEncoding}
+        className="flex items-center gap-1 px-2 py-1 text-xs font-medium bg-slate-700 hover:bg-slate-600 border border-slate-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isEncoding ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />} Full dub
+      </button>
+      {format === 'compressed' && (
+        <span className="text-xs text-slate-500">Compressed files are encoded in real time.</span>
+      )}
+    </div>
+  );
+};
@@ -1,195 +1,394 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { Play, Pause, Volume2 } from './Icons';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { Play, Pause, Volume2, VolumeX } from './Icons';
+import { TTS_SAMPLE_RATE } from '../services/audio';
+import { readPcm } from '../services/audioEncoding';
+import { formatTimestamp } from '../services/timecode';
 
 interface AudioPlayerProps {
   base64Audio: string; // Raw PCM data from Gemini
+  sampleRate?: number;
+  /** Times (seconds) drawn as markers on the waveform, e.g. segment starts. */
+  markers?: number[];
   className?: string;
   autoPlay?: boolean;
 }
 
-export const AudioPlayer: React.FC<AudioPlayerProps> = ({ base64Audio, className = '', autoPlay = false }) => {
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+const SEEK_STEP_SECONDS = 5;
+const VOLUME_STEP = 0.1;
+const WAVEFORM_BUCKETS = 600;
+
+/**
+ * Min/max pairs per bucket, normalised to the loudest peak so quiet speech is still visible.
+ */
+const computePeaks = (buffer: AudioBuffer, buckets: number): Float32Array => {
+  const data = buffer.getChannelData(0);
+  const size = Math.max(1, Math.floor(data.length / buckets));
+  const peaks = new Float32Array(buckets * 2);
+  let loudest = 0;
+  for (let b = 0; b < buckets; b++) {
+    let min = 0;
+    let max = 0;
+    for (let i = b * size; i < Math.min(data.length, (b + 1) * size); i++) {
+      if (data[i] < min) min = data[i];
+      if (data[i] > max) max = data[i];
+    }
+    peaks[b * 2] = min;
+    peaks[b * 2 + 1] = max;
+    loudest = Math.max(loudest, -min, max);
+  }
+  if (loudest > 0) for (let i = 0; i < peaks.length; i++) peaks[i] /= loudest;
+  return peaks;
+};
+
+export const AudioPlayer: React.FC<AudioPlayerProps> = ({ base64Audio, sampleRate = TTS_SAMPLE_RATE, markers = [], className = '', autoPlay = false }) => {
   const [isPlaying, setIsPlaying] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [position, setPosition] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [volume, setVolume] = useState(1);
+  const [isMuted, setIsMuted] = useState(false);
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+  const [peaks, setPeaks] = useState<Float32Array | null>(null);
+
   const audioContextRef = useRef<AudioContext | null>(null);
+  const gainRef = useRef<GainNode | null>(null);
   const sourceRef = useRef<AudioBufferSourceNode | null>(null);
   const bufferRef = useRef<AudioBuffer | null>(null);
+  // Context time and track offset when the current source started
   const startTimeRef = useRef<number>(0);
   const pauseTimeRef = useRef<number>(0);
   const animationFrameRef = useRef<number | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const waveformRef = useRef<HTMLDivElement>(null);
 
-  // Decode audio data on mount or when base64 changes
-  useEffect(() => {
-    const decodeAudio = async () => {
-      try {
-        if (!audioContextRef.current) {
-          audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-        }
-        
-        const ctx = audioContextRef.current;
-        const binaryString = atob(base64Audio);
-        const len = binaryString.length;
-        const bytes = new Uint8Array(len);
-        for (let i = 0; i < len; i++) {
-          bytes[i] = binaryString.charCodeAt(i);
-        }
-
-        // Decode: We assume the response might be raw PCM if generated via certain endpoints, 
-        // OR standard encoded if requesting Audio Modality.
-        // The Gemini `responseModalities: [Modality.AUDIO]` usually returns a WAV container or PCM.
-        // Let's try decodeAudioData which handles WAV headers automatically.
-        // If it fails, we might need manual PCM decoding (as seen in Live API), 
-        // but for `generateContent` with TTS model, it typically returns a format decodeAudioData understands (like WAV or MP3 wrapped).
-        
-        // However, the prompt guide for "Generate Speech" creates a custom decode for PCM.
-        // Let's TRY standard decode first. If it fails, we fall back to PCM logic (unlikely for the REST API vs Live API).
-        // Actually, the guide uses `decodeAudioData` but constructs it manually in the Live API example.
-        // For the REST API TTS example:
-        /*
-          const audioBuffer = await decodeAudioData(
-            decode(base64EncodedAudioString),
-            outputAudioContext,
-            24000,
-            1,
-          );
-        */
-        // Let's implement the manual PCM decode just in case, similar to the guide.
-        
-        // Helper to convert to buffer
-        const dataInt16 = new Int16Array(bytes.buffer);
-        const numChannels = 1;
-        // Note: The REST API sample rate might differ. The Live API uses 24000. Let's try 24000.
-        // If the audio sounds slow/fast, we adjust sampleRate.
-        const sampleRate = 24000; 
-        
-        const frameCount = dataInt16.length / numChannels;
-        const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-        const channelData = buffer.getChannelData(0);
-        
-        for (let i = 0; i < frameCount; i++) {
-             // Convert int16 to float32
-            channelData[i] = dataInt16[i] / 32768.0;
-        }
-        
-        bufferRef.current = buffer;
-        
-        if (autoPlay) {
-          play();
-        }
-      } catch (e) {
-        console.error("Audio decode error", e);
-      }
-    };
-
-    decodeAudio();
+  const currentTime = useCallback(() => {
+    const ctx = audioContextRef.current;
+    if (!ctx || !sourceRef.current) return pauseTimeRef.current;
+    return pauseTimeRef.current + (ctx.currentTime - startTimeRef.current) * sourceRef.current.playbackRate.value;
+  }, []);
 
-    return () => {
-      stop();
-      if (audioContextRef.current?.state !== 'closed') {
-        audioContextRef.current?.close();
-      }
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [base64Audio]);
+  const stopSource = () => {
+    if (sourceRef.current) {
+      sourceRef.current.onended = null;
+      try {
+        sourceRef.current.stop();
+      } catch (e) { /* ignore */ }
+      sourceRef.current = null;
+    }
+    if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
+  };
 
   const updateProgress = () => {
-    if (!audioContextRef.current || !startTimeRef.current || !bufferRef.current) return;
-    const elapsed = audioContextRef.current.currentTime - startTimeRef.current + pauseTimeRef.current;
-    const duration = bufferRef.current.duration;
-    const percent = Math.min((elapsed / duration) * 100, 100);
-    setProgress(percent);
-
-    if (elapsed < duration) {
-      animationFrameRef.current = requestAnimationFrame(updateProgress);
-    } else {
-      setIsPlaying(false);
+    const buffer = bufferRef.current;
+    if (!buffer) return;
+    const elapsed = currentTime();
+    if (elapsed >= buffer.duration) {
+      stopSource();
       pauseTimeRef.current = 0;
-      setProgress(100);
+      setIsPlaying(false);
+      setPosition(buffer.duration);
+      return;
     }
+    setPosition(elapsed);
+    animationFrameRef.current = requestAnimationFrame(updateProgress);
   };
 
-  const play = async () => {
-    if (!audioContextRef.current || !bufferRef.current) return;
-    
-    if (audioContextRef.current.state === 'suspended') {
-      await audioContextRef.current.resume();
-    }
+  // Starts a fresh source at `offset`; AudioBufferSourceNodes cannot be resumed
+  const startAt = async (offset: number, rate = playbackRate) => {
+    const ctx = audioContextRef.current;
+    const buffer = bufferRef.current;
+    if (!ctx || !buffer || !gainRef.current) return;
+    if (ctx.state === 'suspended') await ctx.resume();
+
+    stopSource();
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = rate;
+    source.connect(gainRef.current);
+    source.start(0, Math.min(offset, buffer.duration));
 
-    const source = audioContextRef.current.createBufferSource();
-    source.buffer = bufferRef.current;
-    source.connect(audioContextRef.current.destination);
-    
-    // Start playback
-    // If we are resuming, we need to calculate offset. 
-    // However, AudioBufferSourceNode cannot be "resumed", we must create a new one.
-    const offset = pauseTimeRef.current;
-    source.start(0, offset);
-    
     sourceRef.current = source;
-    startTimeRef.current = audioContextRef.current.currentTime;
+    startTimeRef.current = ctx.currentTime;
+    pauseTimeRef.current = offset;
     setIsPlaying(true);
-    
     animationFrameRef.current = requestAnimationFrame(updateProgress);
-
-    source.onended = () => {
-        // Handled by progress check mostly, but good backup
-    };
   };
 
-  const stop = () => {
-    if (sourceRef.current) {
-      try {
-        sourceRef.current.stop();
-      } catch (e) { /* ignore */ }
-      sourceRef.current = null;
-    }
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-    }
-    setIsPlaying(false);
+  const play = () => {
+    const buffer = bufferRef.current;
+    if (!buffer) return;
+    // Start over once the end has been reached
+    startAt(pauseTimeRef.current >= buffer.duration ? 0 : pauseTimeRef.current);
   };
 
   const pause = () => {
-    if (!audioContextRef.current) return;
-    stop();
-    // Calculate where we left off
-    const elapsed = audioContextRef.current.currentTime - startTimeRef.current;
-    pauseTimeRef.current += elapsed;
+    pauseTimeRef.current = currentTime();
+    stopSource();
+    setIsPlaying(false);
+    setPosition(pauseTimeRef.current);
   };
 
   const togglePlay = () => {
+    if (isPlaying) pause();
+    else play();
+  };
+
+  const seek = (seconds: number) => {
+    const buffer = bufferRef.current;
+    if (!buffer) return;
+    const target = Math.max(0, Math.min(buffer.duration, seconds));
+    setPosition(target);
     if (isPlaying) {
-      pause();
+      startAt(target);
     } else {
-      // If we finished, reset
-      if (progress >= 100) {
-        pauseTimeRef.current = 0;
-        setProgress(0);
+      pauseTimeRef.current = target;
+    }
+  };
+
+  const changeRate = (rate: number) => {
+    setPlaybackRate(rate);
+    if (isPlaying) startAt(currentTime(), rate);
+  };
+
+  // Decode audio data on mount or when base64 changes
+  useEffect(() => {
+    try {
+      if (!audioContextRef.current) {
+        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+        gainRef.current = audioContextRef.current.createGain();
+        gainRef.current.connect(audioContextRef.current.destination);
       }
-      play();
+
+      const ctx = audioContextRef.current;
+      // Raw 16-bit mono PCM (or WAV, for older saved clips); the context resamples to its own rate
+      const pcm = readPcm(base64Audio, sampleRate);
+      const buffer = ctx.createBuffer(1, Math.max(1, pcm.samples.length), pcm.sampleRate);
+      const channelData = buffer.getChannelData(0);
+
+      for (let i = 0; i < pcm.samples.length; i++) {
+        channelData[i] = pcm.samples[i] / 32768.0;
+      }
+
+      bufferRef.current = buffer;
+      pauseTimeRef.current = 0;
+      setDuration(buffer.duration);
+      setPosition(0);
+      setPeaks(computePeaks(buffer, WAVEFORM_BUCKETS));
+
+      if (autoPlay) {
+        play();
+      }
+    } catch (e) {
+      console.error("Audio decode error", e);
     }
+
+    return () => {
+      stopSource();
+      if (audioContextRef.current?.state !== 'closed') {
+        audioContextRef.current?.close();
+      }
+      audioContextRef.current = null;
+      gainRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [base64Audio, sampleRate]);
+
+  useEffect(() => {
+    const gain = gainRef.current;
+    const ctx = audioContextRef.current;
+    if (!gain || !ctx) return;
+    // A short ramp avoids clicks when the level jumps
+    gain.gain.setTargetAtTime(isMuted ? 0 : volume, ctx.currentTime, 0.01);
+  }, [volume, isMuted, duration]);
+
+  const shownPosition = scrubPosition ?? position;
+
+  // Draw the waveform, played part highlighted
+  const markerFractions = useMemo(
+    () => (duration > 0 ? markers.filter(t => t > 0 && t < duration).map(t => t / duration) : []),
+    [markers, duration]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = waveformRef.current;
+    if (!canvas || !container || !peaks) return;
+
+    const draw = () => {
+      const dpr = window.devicePixelRatio || 1;
+      const width = container.clientWidth;
+      const height = container.clientHeight;
+      if (canvas.width !== width * dpr || canvas.height !== height * dpr) {
+        canvas.width = width * dpr;
+        canvas.height = height * dpr;
+      }
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+
+      const mid = height / 2;
+      const buckets = peaks.length / 2;
+      const playedX = duration > 0 ? (shownPosition / duration) * width : 0;
+      for (let x = 0; x < width; x++) {
+        const b = Math.min(buckets - 1, Math.floor((x / width) * buckets));
+        const min = peaks[b * 2];
+        const max = peaks[b * 2 + 1];
+        ctx.fillStyle = x < playedX ? '#60a5fa' : '#475569'; // blue-400 / slate-600
+        ctx.fillRect(x, mid - max * mid, 1, Math.max(1, (max - min) * mid));
+      }
+
+      ctx.fillStyle = 'rgba(251, 191, 36, 0.7)'; // amber-400
+      for (const fraction of markerFractions) {
+        ctx.fillRect(Math.round(fraction * width), 0, 1, height);
+      }
+    };
+
+    draw();
+    const observer = new ResizeObserver(draw);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [peaks, shownPosition, duration, markerFractions]);
+
+  const positionFromPointer = (e: React.PointerEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!duration) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setScrubPosition(positionFromPointer(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (scrubPosition !== null) setScrubPosition(positionFromPointer(e));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (scrubPosition === null) return;
+    seek(positionFromPointer(e));
+    setScrubPosition(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Leave keys alone while a nested control (volume slider, speed select) has focus
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+    const rateIndex = PLAYBACK_RATES.indexOf(playbackRate);
+    switch (e.key) {
+      case ' ':
+      case 'k':
+        togglePlay();
+        break;
+      case 'ArrowLeft':
+      case 'j':
+        seek(position - SEEK_STEP_SECONDS);
+        break;
+      case 'ArrowRight':
+      case 'l':
+        seek(position + SEEK_STEP_SECONDS);
+        break;
+      case 'Home':
+        seek(0);
+        break;
+      case 'ArrowUp':
+        setVolume(v => Math.min(1, v + VOLUME_STEP));
+        setIsMuted(false);
+        break;
+      case 'ArrowDown':
+        setVolume(v => Math.max(0, v - VOLUME_STEP));
+        break;
+      case 'm':
+        setIsMuted(m => !m);
+        break;
+      case '>':
+        changeRate(PLAYBACK_RATES[Math.min(PLAYBACK_RATES.length - 1, rateIndex + 1)]);
+        break;
+      case '<':
+        changeRate(PLAYBACK_RATES[Math.max(0, rateIndex - 1)]);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
   };
 
   return (
-    <div className={`flex items-center gap-3 bg-slate-800 rounded-full px-4 py-2 border border-slate-700 ${className}`}>
-      <button 
+    <div
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      aria-label="Dubbed audio player. Space to play or pause, arrows to seek and change volume, M to mute, < and > to change speed."
+      className={`flex items-center gap-3 bg-slate-800 rounded-xl px-3 py-2 border border-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500 ${className}`}
+    >
+      <button
         onClick={togglePlay}
-        className="w-10 h-10 rounded-full bg-blue-600 hover:bg-blue-500 flex items-center justify-center text-white transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+        tabIndex={-1}
+        className="w-10 h-10 shrink-0 rounded-full bg-blue-600 hover:bg-blue-500 flex items-center justify-center text-white transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+        title={isPlaying ? 'Pause (Space)' : 'Play (Space)'}
       >
         {isPlaying ? <Pause size={18} fill="currentColor" /> : <Play size={18} fill="currentColor" className="ml-1" />}
       </button>
-      
-      <div className="flex-1 min-w-[100px] flex flex-col justify-center">
-        <div className="h-1.5 w-full bg-slate-600 rounded-full overflow-hidden">
-          <div 
-            className="h-full bg-blue-400 rounded-full transition-all duration-100 ease-linear"
-            style={{ width: `${progress}%` }}
-          />
+
+      <div className="flex-1 min-w-[120px] flex flex-col justify-center gap-1">
+        <div
+          ref={waveformRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => setScrubPosition(null)}
+          role="slider"
+          aria-label="Seek"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(duration)}
+          aria-valuenow={Math.round(shownPosition)}
+          className="relative h-10 w-full cursor-pointer touch-none select-none"
+        >
+          <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+        </div>
+        <div className="flex justify-between text-[11px] font-mono text-slate-400">
+          <span>{formatTimestamp(shownPosition)}</span>
+          <span>{formatTimestamp(duration)}</span>
         </div>
       </div>
-      
-      <div className="text-slate-400">
-        <Volume2 size={18} />
+
+      <select
+        value={playbackRate}
+        onChange={(e) => changeRate(Number(e.target.value))}
+        className="bg-slate-900 border border-slate-600 rounded-md px-1 py-1 text-xs text-white focus:ring-2 focus:ring-blue-500 outline-none"
+        title="Playback speed"
+      >
+        {PLAYBACK_RATES.map(rate => (
+          <option key={rate} value={rate}>{rate}×</option>
+        ))}
+      </select>
+
+      <div className="flex items-center gap-1 text-slate-400">
+        <button
+          onClick={() => setIsMuted(m => !m)}
+          tabIndex={-1}
+          className="p-1 rounded-md hover:text-white hover:bg-slate-700 transition-colors"
+          title={isMuted ? 'Unmute (M)' : 'Mute (M)'}
+        >
+          {isMuted || volume === 0 ? <VolumeX size={18} /> : <Volume2 size={18} />}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={isMuted ? 0 : volume}
+          onChange={(e) => {
+            setVolume(Number(e.target.value));
+            setIsMuted(false);
+          }}
+          className="w-16 accent-blue-500"
+          aria-label="Volume"
+        />
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
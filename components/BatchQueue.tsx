@@ -0,0 +1,309 @@
+import React, { useRef, useState } from 'react';
+import { Upload, Download, RefreshCw, Loader2, X } from './Icons';
+import { Button } from './Button';
+import { GlossaryEntry, LanguageOption, TranslationStatus } from '../types';
+import { TranslationProvider } from '../services/providers';
+import { BatchJob, createBatchJobs, createTranscriptionCache, runBatch } from '../services/batch';
+import { exportSubtitles } from '../services/subtitles';
+import { pcmBase64ToWavBlob } from '../services/audio';
+import { baseFilename, downloadBlob, downloadText } from '../services/download';
+import { MAX_LONG_MEDIA_SIZE_MB } from '../services/media';
+
+interface BatchQueueProps {
+  provider: TranslationProvider;
+  /** Built-in and user-added languages. */
+  availableLanguages: LanguageOption[];
+  glossary: GlossaryEntry[];
+  /** Set when new runs are not allowed, e.g. by the spending cap. */
+  blockedReason?: string | null;
+}
+
+const STATUS_LABELS: Record<TranslationStatus, string> = {
+  [TranslationStatus.IDLE]: 'Queued',
+  [TranslationStatus.UPLOADING]: 'Reading',
+  [TranslationStatus.TRANSCRIBING]: 'Transcribing',
+  [TranslationStatus.AWAITING_REVIEW]: 'In review',
+  [TranslationStatus.TRANSLATING]: 'Translating',
+  [TranslationStatus.GENERATING_SPEECH]: 'Voicing',
+  [TranslationStatus.COMPLETED]: 'Done',
+  [TranslationStatus.ERROR]: 'Failed',
+};
+
+const STATUS_STYLES: Record<TranslationStatus, string> = {
+  [TranslationStatus.IDLE]: 'text-slate-400 bg-slate-700/50',
+  [TranslationStatus.UPLOADING]: 'text-blue-300 bg-blue-400/10',
+  [TranslationStatus.TRANSCRIBING]: 'text-blue-300 bg-blue-400/10',
+  [TranslationStatus.AWAITING_REVIEW]: 'text-amber-300 bg-amber-400/10',
+  [TranslationStatus.TRANSLATING]: 'text-blue-300 bg-blue-400/10',
+  [TranslationStatus.GENERATING_SPEECH]: 'text-indigo-300 bg-indigo-400/10',
+  [TranslationStatus.COMPLETED]: 'text-emerald-300 bg-emerald-400/10',
+  [TranslationStatus.ERROR]: 'text-red-300 bg-red-400/10',
+};
+
+const isActive = (status: TranslationStatus) =>
+  status === TranslationStatus.UPLOADING || status === TranslationStatus.TRANSCRIBING
+    || status === TranslationStatus.TRANSLATING || status === TranslationStatus.GENERATING_SPEECH;
+
+const downloadJob = (job: BatchJob) => {
+  if (!job.result) return;
+  const base = `${baseFilename(job.file.name)}.${job.language.code}`;
+  const { content, mimeType } = exportSubtitles(job.result.segments, 'srt', { mode: 'translated' });
+  downloadText(content, `${base}.srt`, mimeType);
+  if (job.dub) {
+    downloadBlob(pcmBase64ToWavBlob(job.dub.audioBase64, job.dub.sampleRate), `${base}.dub.wav`);
+  }
+};
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({ provider, availableLanguages, glossary, blockedReason = null }) => {
+  const [files, setFiles] = useState<File[]>([]);
+  const [languages, setLanguages] = useState<LanguageOption[]>([availableLanguages[1]]);
+  // Name of the forced source language, '' to detect it per file
+  const [sourceLanguage, setSourceLanguage] = useState('');
+  const [concurrency, setConcurrency] = useState(2);
+  const [generateDub, setGenerateDub] = useState(true);
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Survives across runs so "Retry failed" does not re-transcribe videos that already succeeded
+  const cacheRef = useRef(createTranscriptionCache());
+
+  const addFiles = (incoming: FileList | null) => {
+    if (!incoming) return;
+    const accepted = Array.from(incoming).filter(file => file.type.startsWith('video/') || file.type.startsWith('audio/'));
+    const tooLarge = accepted.filter(file => file.size > MAX_LONG_MEDIA_SIZE_MB * 1024 * 1024);
+    setErrorMsg(tooLarge.length ? `Skipped ${tooLarge.map(f => f.name).join(', ')}: larger than ${MAX_LONG_MEDIA_SIZE_MB}MB.` : null);
+    setFiles(prev => [...prev, ...accepted.filter(file => !tooLarge.includes(file) && !prev.includes(file))]);
+  };
+
+  const toggleLanguage = (language: LanguageOption) => {
+    setLanguages(prev => prev.some(l => l.code === language.code)
+      ? prev.filter(l => l.code !== language.code)
+      : [...prev, language]);
+  };
+
+  const updateJob = (id: string, patch: Partial<BatchJob>) => {
+    setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...patch } : job)));
+  };
+
+  const run = async (queue: BatchJob[]) => {
+    if (queue.length === 0) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    try {
+      await runBatch(queue, {
+        provider,
+        concurrency,
+        generateDub,
+        cache: cacheRef.current,
+        sourceLanguage: sourceLanguage || undefined,
+        glossary,
+        signal: controller.signal,
+        onUpdate: updateJob,
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleStart = () => {
+    const queue = createBatchJobs(files, languages);
+    setJobs(queue);
+    run(queue);
+  };
+
+  const handleRetryFailed = () => {
+    const failed = jobs.filter(job => job.status === TranslationStatus.ERROR || job.status === TranslationStatus.IDLE);
+    failed.forEach(job => updateJob(job.id, { status: TranslationStatus.IDLE, error: undefined, message: undefined }));
+    run(failed);
+  };
+
+  const handleDownloadAll = () => {
+    jobs.filter(job => job.status === TranslationStatus.COMPLETED).forEach(downloadJob);
+  };
+
+  const completed = jobs.filter(job => job.status === TranslationStatus.COMPLETED).length;
+  const retryable = jobs.filter(job => job.status === TranslationStatus.ERROR || job.status === TranslationStatus.IDLE).length;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      {/* Setup */}
+      <div className="space-y-6">
+        <div
+          onClick={() => !isRunning && fileInputRef.current?.click()}
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => { e.preventDefault(); setIsDragging(false); if (!isRunning) addFiles(e.dataTransfer.files); }}
+          className={`bg-slate-800 border-2 border-dashed rounded-xl p-8 flex flex-col items-center gap-3 cursor-pointer transition-colors ${isDragging ? 'border-blue-500' : 'border-slate-600 hover:border-blue-500'}`}
+        >
+          <Upload size={28} className="text-blue-400" />
+          <p className="text-sm text-slate-300">Drop videos here or click to select</p>
+          <p className="text-xs text-slate-500">Any number of files, up to {MAX_LONG_MEDIA_SIZE_MB}MB each</p>
+        </div>
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }}
+          accept="video/*,audio/*"
+          multiple
+          className="hidden"
+        />
+        {errorMsg && (
+          <div className="p-3 bg-red-900/30 border border-red-800 text-red-200 rounded-lg text-sm">{errorMsg}</div>
+        )}
+
+        {files.length > 0 && (
+          <ul className="bg-slate-800 rounded-xl border border-slate-700 divide-y divide-slate-700/50 text-sm">
+            {files.map(file => (
+              <li key={`${file.name}-${file.size}`} className="flex items-center justify-between px-4 py-2">
+                <span className="truncate text-slate-300">{file.name}</span>
+                <button
+                  onClick={() => setFiles(prev => prev.filter(f => f !== file))}
+                  disabled={isRunning}
+                  className="text-slate-500 hover:text-white disabled:opacity-40"
+                  title="Remove"
+                >
+                  <X size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 space-y-4">
+          <p className="text-sm font-medium text-slate-300">Target Languages</p>
+          <div className="grid grid-cols-2 gap-2">
+            {availableLanguages.map(language => (
+              <label key={language.code} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={languages.some(l => l.code === language.code)}
+                  onChange={() => toggleLanguage(language)}
+                  disabled={isRunning}
+                  className="rounded border-slate-600 bg-slate-900 text-blue-500 focus:ring-blue-500"
+                />
+                {language.name}
+              </label>
+            ))}
+          </div>
+
+          <label className="flex items-center justify-between gap-4 text-sm text-slate-300">
+            Source language
+            <select
+              value={sourceLanguage}
+              onChange={(e) => {
+                setSourceLanguage(e.target.value);
+                // Transcripts made under another source language must not be reused
+                cacheRef.current = createTranscriptionCache();
+              }}
+              disabled={isRunning}
+              className="bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-white outline-none"
+            >
+              <option value="">Auto-detect</option>
+              {availableLanguages.map(language => (
+                <option key={language.code} value={language.name}>{language.name}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="flex items-center justify-between gap-4 pt-2">
+            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={generateDub}
+                onChange={(e) => setGenerateDub(e.target.checked)}
+                disabled={isRunning}
+                className="rounded border-slate-600 bg-slate-900 text-blue-500 focus:ring-blue-500"
+              />
+              Generate dubbed audio
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              Parallel jobs
+              <select
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                disabled={isRunning}
+                className="bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-white outline-none"
+              >
+                {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+          </div>
+
+          {isRunning ? (
+            <Button variant="outline" className="w-full" onClick={() => abortControllerRef.current?.abort()}>
+              Cancel
+            </Button>
+          ) : (
+            <Button className="w-full" onClick={handleStart} disabled={files.length === 0 || languages.length === 0 || Boolean(blockedReason)}>
+              Translate {files.length * languages.length || ''} Job{files.length * languages.length === 1 ? '' : 's'}
+            </Button>
+          )}
+          {blockedReason && <p className="text-xs text-red-300 text-center">{blockedReason}</p>}
+        </div>
+      </div>
+
+      {/* Status table */}
+      <div className="lg:col-span-2 bg-slate-800 rounded-xl border border-slate-700 flex flex-col overflow-hidden max-h-[700px]">
+        <div className="p-4 border-b border-slate-700 flex items-center justify-between gap-2">
+          <div>
+            <h3 className="font-semibold text-white">Batch Queue</h3>
+            <p className="text-xs text-slate-400">{jobs.length ? `${completed}/${jobs.length} done` : 'No jobs yet'}</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleRetryFailed} disabled={isRunning || retryable === 0 || Boolean(blockedReason)} className="text-sm">
+              <RefreshCw size={14} className="mr-2" /> Retry Failed
+            </Button>
+            <Button variant="outline" onClick={handleDownloadAll} disabled={completed === 0} className="text-sm">
+              <Download size={14} className="mr-2" /> Download All
+            </Button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto flex-1">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-slate-400 text-left sticky top-0 bg-slate-800">
+              <tr>
+                <th className="px-4 py-2 font-medium">File</th>
+                <th className="px-4 py-2 font-medium">Language</th>
+                <th className="px-4 py-2 font-medium">Status</th>
+                <th className="px-4 py-2 font-medium text-right">Segments</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/50">
+              {jobs.map(job => (
+                <tr key={job.id}>
+                  <td className="px-4 py-2 text-slate-300 truncate max-w-[200px]" title={job.file.name}>{job.file.name}</td>
+                  <td className="px-4 py-2 text-slate-300">{job.language.name}</td>
+                  <td className="px-4 py-2">
+                    <span className={`inline-flex items-center gap-1 text-xs px-1.5 py-0.5 rounded ${STATUS_STYLES[job.status]}`}>
+                      {isActive(job.status) && <Loader2 size={12} className="animate-spin" />}
+                      {STATUS_LABELS[job.status]}
+                    </span>
+                    {(job.error || job.message) && (
+                      <p className={`text-xs mt-1 ${job.error ? 'text-red-300' : 'text-slate-500'}`}>{job.error || job.message}</p>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-right text-slate-400">{job.result?.segments.length ?? '–'}</td>
+                  <td className="px-4 py-2 text-right">
+                    {job.status === TranslationStatus.COMPLETED && (
+                      <button onClick={() => downloadJob(job)} className="text-slate-400 hover:text-white" title="Download subtitles and dub">
+                        <Download size={16} />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
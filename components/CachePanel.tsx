@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { X, Trash2, Loader2 } from './Icons';
+import { CACHE_LAYERS, CacheEntryInfo, CacheLayer, CacheStore, evictToSize, formatBytes } from '../services/resultCache';
+
+interface CachePanelProps {
+  isOpen: boolean;
+  store: CacheStore;
+  limitMb: number;
+  onClose: () => void;
+  onLimitChange: (limitMb: number) => void;
+}
+
+const iconButton = "p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors";
+const inputStyle = "w-full bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none";
+
+// Enough to find recent entries; older ones are still counted in the totals
+const MAX_LISTED = 200;
+
+export const CachePanel: React.FC<CachePanelProps> = ({ isOpen, store, limitMb, onClose, onLimitChange }) => {
+  const [entries, setEntries] = useState<CacheEntryInfo[] | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  // Applied on blur, so typing a new limit does not evict at every keystroke
+  const [limitDraft, setLimitDraft] = useState(String(limitMb));
+
+  useEffect(() => setLimitDraft(String(limitMb)), [limitMb]);
+
+  const refresh = async () => {
+    try {
+      const list = await store.list();
+      setEntries(list.sort((a, b) => b.lastUsedAt - a.lastUsedAt));
+      setErrorMsg(null);
+    } catch (err) {
+      console.error(err);
+      setErrorMsg("Could not read the cache.");
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen, store]);
+
+  if (!isOpen) return null;
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      setErrorMsg("Could not update the cache.");
+    }
+    await refresh();
+  };
+
+  const totals = (layer?: CacheLayer) => {
+    const selected = (entries ?? []).filter(entry => !layer || entry.layer === layer);
+    return { count: selected.length, size: selected.reduce((sum, entry) => sum + entry.size, 0) };
+  };
+  const all = totals();
+
+  const applyLimit = () => {
+    const value = Number(limitDraft);
+    if (!(value > 0) || value === limitMb) {
+      setLimitDraft(String(limitMb));
+      return;
+    }
+    onLimitChange(value);
+    run(() => evictToSize(store, value * 1024 * 1024));
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex justify-end">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+      <aside className="relative w-full max-w-md h-full bg-slate-900 border-l border-slate-700 flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+          <h2 className="font-semibold text-white">Result cache</h2>
+          <button onClick={onClose} className={iconButton} title="Close"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          <p className="text-sm text-slate-400">
+            Transcripts, translations and speech are reused when the same video, text, language, voice and settings come up again,
+            so re-running or switching languages does not pay for the same work twice.
+          </p>
+          {errorMsg && <p className="text-xs text-red-300">{errorMsg}</p>}
+
+          {entries === null ? (
+            <div className="flex justify-center py-6 text-slate-500"><Loader2 className="animate-spin" size={20} /></div>
+          ) : (
+            <table className="w-full text-sm">
+              <tbody className="text-slate-300">
+                {CACHE_LAYERS.map(({ layer, label }) => {
+                  const { count, size } = totals(layer);
+                  return (
+                    <tr key={layer}>
+                      <td className="py-1">{label}</td>
+                      <td className="py-1 text-right text-slate-400">{count}</td>
+                      <td className="py-1 text-right text-slate-400">{formatBytes(size)}</td>
+                      <td className="py-1 text-right">
+                        <button
+                          onClick={() => run(() => store.clear(layer))}
+                          disabled={count === 0}
+                          className="text-xs text-blue-400 hover:text-blue-300 disabled:text-slate-600"
+                        >
+                          Clear
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+                <tr className="border-t border-slate-800 text-white font-medium">
+                  <td className="pt-1">Total</td>
+                  <td className="pt-1 text-right">{all.count}</td>
+                  <td className="pt-1 text-right">{formatBytes(all.size)}</td>
+                  <td className="pt-1 text-right">
+                    <button
+                      onClick={() => run(() => store.clear())}
+                      disabled={all.count === 0}
+                      className="text-xs text-red-300 hover:text-red-200 disabled:text-slate-600"
+                    >
+                      Clear all
+                    </button>
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+
+          <label className="block text-xs text-slate-400 space-y-1">
+            <span>Size limit (MB)</span>
+            <input
+              type="number"
+              min={10}
+              step={10}
+              value={limitDraft}
+              onChange={(e) => setLimitDraft(e.target.value)}
+              onBlur={applyLimit}
+              onKeyDown={(e) => e.key === 'Enter' && applyLimit()}
+              className={inputStyle}
+            />
+            <span className="block text-slate-500">The least recently used entries are removed once the cache grows past this.</span>
+          </label>
+
+          {entries && entries.length > 0 && (
+            <div>
+              <p className="text-xs font-medium uppercase tracking-wide text-slate-500 mb-2">Recently used</p>
+              <ul className="space-y-1">
+                {entries.slice(0, MAX_LISTED).map(entry => (
+                  <li key={entry.key} className="flex items-center gap-2 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate text-slate-300" title={entry.label}>{entry.label}</p>
+                      <p className="text-xs text-slate-500">
+                        {CACHE_LAYERS.find(l => l.layer === entry.layer)?.label} · {formatBytes(entry.size)} · used {new Date(entry.lastUsedAt).toLocaleString()}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => run(() => store.delete([entry.key]))}
+                      className={`${iconButton} hover:text-red-300`}
+                      title="Remove from cache"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Film, Loader2 } from './Icons';
+import { Button } from './Button';
+import { Segment } from '../types';
+import { DubTrack } from '../services/dubbing';
+import { SubtitleTextMode } from '../services/subtitles';
+import { exportDubbedVideo, ExportAudioMode, ExportSubtitleMode, pickRecorderMimeType } from '../services/videoExport';
+import { downloadBlob, downloadText } from '../services/download';
+import { describeError, isCancellation } from '../services/request';
+
+interface ExportPanelProps {
+  videoFile: File;
+  dubTrack: DubTrack | null;
+  segments: Segment[];
+  filenameBase: string;
+  disabled?: boolean;
+}
+
+const AUDIO_MODES: { value: ExportAudioMode; label: string }[] = [
+  { value: 'mix', label: 'Dub over original (ducked)' },
+  { value: 'dub', label: 'Dub only' },
+  { value: 'original', label: 'Original audio' },
+];
+
+const SUBTITLE_MODES: { value: ExportSubtitleMode; label: string }[] = [
+  { value: 'none', label: 'No subtitles' },
+  { value: 'burned', label: 'Burned in' },
+  { value: 'soft', label: 'Separate .vtt file' },
+];
+
+const selectClass = "w-full bg-slate-900 border border-slate-600 rounded-md px-2 py-1.5 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none";
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ videoFile, dubTrack, segments, filenameBase, disabled = false }) => {
+  const [audioMode, setAudioMode] = useState<ExportAudioMode>(dubTrack ? 'mix' : 'original');
+  const [duckLevel, setDuckLevel] = useState(0.2);
+  const [subtitleMode, setSubtitleMode] = useState<ExportSubtitleMode>('none');
+  const [subtitleText, setSubtitleText] = useState<SubtitleTextMode>('translated');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const supported = pickRecorderMimeType() !== null;
+
+  useEffect(() => {
+    if (!dubTrack && audioMode !== 'original') setAudioMode('original');
+  }, [dubTrack, audioMode]);
+
+  // Stop a running export when the panel goes away
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setErrorMsg(null);
+    setProgress(0);
+    try {
+      const result = await exportDubbedVideo(videoFile, dubTrack, segments, {
+        audioMode,
+        duckLevel,
+        subtitleMode,
+        subtitleText,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      downloadBlob(result.video, `${filenameBase}.${result.extension}`);
+      if (result.subtitles) {
+        downloadText(result.subtitles, `${filenameBase}.${subtitleText}.vtt`, 'text/vtt');
+      }
+    } catch (error) {
+      if (!isCancellation(error)) {
+        console.error("Video export failed:", error);
+        setErrorMsg(describeError(error));
+      }
+    } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const isExporting = progress !== null;
+
+  return (
+    <div className="space-y-3 pt-4 border-t border-slate-700">
+      <h3 className="text-sm font-medium text-slate-300 flex items-center gap-2">
+        <Film size={16} className="text-blue-400" /> Export Video
+      </h3>
+
+      {!supported ? (
+        <p className="text-xs text-slate-500">Video export needs MediaRecorder support, which this browser lacks.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-slate-400 space-y-1">
+              <span>Audio</span>
+              <select
+                value={audioMode}
+                onChange={(e) => setAudioMode(e.target.value as ExportAudioMode)}
+                disabled={isExporting}
+                className={selectClass}
+              >
+                {AUDIO_MODES.map(m => (
+                  <option key={m.value} value={m.value} disabled={m.value !== 'original' && !dubTrack}>{m.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-slate-400 space-y-1">
+              <span>Subtitles</span>
+              <select
+                value={subtitleMode}
+                onChange={(e) => setSubtitleMode(e.target.value as ExportSubtitleMode)}
+                disabled={isExporting}
+                className={selectClass}
+              >
+                {SUBTITLE_MODES.map(m => (
+                  <option key={m.value} value={m.value}>{m.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {audioMode === 'mix' && (
+            <label className="flex items-center gap-3 text-xs text-slate-400">
+              <span className="shrink-0">Original under speech</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={duckLevel}
+                onChange={(e) => setDuckLevel(Number(e.target.value))}
+                disabled={isExporting}
+                className="flex-1 accent-blue-500"
+              />
+              <span className="w-9 text-right">{Math.round(duckLevel * 100)}%</span>
+            </label>
+          )}
+
+          {subtitleMode !== 'none' && (
+            <select
+              value={subtitleText}
+              onChange={(e) => setSubtitleText(e.target.value as SubtitleTextMode)}
+              disabled={isExporting}
+              className={selectClass}
+            >
+              <option value="translated">Translated text</option>
+              <option value="original">Original text</option>
+              <option value="bilingual">Bilingual</option>
+            </select>
+          )}
+
+          {isExporting ? (
+            <div className="space-y-2">
+              <div className="h-2 w-full bg-slate-700 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-500 rounded-full transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+              </div>
+              <div className="flex items-center justify-between text-xs text-blue-300">
+                <span className="flex items-center gap-2">
+                  <Loader2 size={14} className="animate-spin" /> Rendering {Math.round(progress * 100)}%
+                </span>
+                <button onClick={() => abortControllerRef.current?.abort()} className="text-slate-400 hover:text-white">
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <Button onClick={handleExport} variant="outline" className="w-full" disabled={disabled}>
+              Export Video
+            </Button>
+          )}
+
+          <p className="text-xs text-slate-500">
+            The video is rendered in real time, so exporting takes as long as the video plays.
+          </p>
+        </>
+      )}
+
+      {errorMsg && (
+        <div className="p-3 bg-red-900/30 border border-red-800 text-red-200 rounded-lg text-sm">
+          Error: {errorMsg}
+        </div>
+      )}
+    </div>
+  );
+};
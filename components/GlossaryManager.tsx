@@ -0,0 +1,165 @@
+import React, { useRef, useState } from 'react';
+import { X, Plus, Trash2, Upload, Download } from './Icons';
+import { Button } from './Button';
+import { GlossaryEntry, LanguageOption } from '../types';
+import { createGlossaryEntryId, exportGlossaryCsv, parseGlossaryCsv } from '../services/glossary';
+import { downloadText } from '../services/download';
+
+interface GlossaryManagerProps {
+  isOpen: boolean;
+  entries: GlossaryEntry[];
+  languages: LanguageOption[];
+  onClose: () => void;
+  onChange: (entries: GlossaryEntry[]) => void;
+}
+
+const iconButton = "p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors";
+const inputStyle = "w-full bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none disabled:opacity-40";
+
+// Imported rows replace existing ones for the same term and language
+const entryKey = (entry: GlossaryEntry) => `${entry.term.trim().toLowerCase()}\n${entry.language ?? ''}`;
+
+export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ isOpen, entries, languages, onClose, onChange }) => {
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const update = (id: string, patch: Partial<GlossaryEntry>) =>
+    onChange(entries.map(entry => (entry.id === id ? { ...entry, ...patch } : entry)));
+
+  const handleAdd = () =>
+    onChange([...entries, { id: createGlossaryEntryId(), term: '', translation: '', caseSensitive: false, doNotTranslate: false }]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = '';
+
+    try {
+      const imported = parseGlossaryCsv(await file.text());
+      const replaced = new Set(imported.map(entryKey));
+      onChange([...entries.filter(entry => !replaced.has(entryKey(entry))), ...imported]);
+      setErrorMsg(null);
+      setNotice(`Imported ${imported.length} term${imported.length === 1 ? '' : 's'} from ${file.name}.`);
+    } catch (err) {
+      console.error(err);
+      setNotice(null);
+      setErrorMsg(err instanceof Error ? err.message : "Could not read the CSV file.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex justify-end">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+      <aside className="relative w-full max-w-2xl h-full bg-slate-900 border-l border-slate-700 flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+          <h2 className="font-semibold text-white">Glossary</h2>
+          <div className="flex items-center gap-1">
+            <button onClick={() => fileInputRef.current?.click()} className={iconButton} title="Import CSV"><Upload size={16} /></button>
+            <button
+              onClick={() => downloadText(exportGlossaryCsv(entries), 'glossary.csv', 'text/csv')}
+              disabled={entries.length === 0}
+              className={`${iconButton} disabled:opacity-40`}
+              title="Export CSV"
+            >
+              <Download size={16} />
+            </button>
+            <button onClick={onClose} className={iconButton} title="Close"><X size={18} /></button>
+          </div>
+        </div>
+        <input type="file" ref={fileInputRef} onChange={handleImport} accept=".csv,text/csv" className="hidden" />
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <p className="text-sm text-slate-400">
+            Terms are sent with every translation request, and translated lines that break a rule are flagged in the transcript.
+            Mark brand and product names as "keep" to leave them untranslated.
+          </p>
+          {errorMsg && <p className="text-xs text-red-300">{errorMsg}</p>}
+          {notice && <p className="text-xs text-emerald-300">{notice}</p>}
+
+          {entries.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-left text-slate-500">
+                  <th className="font-medium pb-2 pr-2">Term</th>
+                  <th className="font-medium pb-2 pr-2">Translation</th>
+                  <th className="font-medium pb-2 pr-2">Language</th>
+                  <th className="font-medium pb-2 pr-2 text-center" title="Match case">Aa</th>
+                  <th className="font-medium pb-2 pr-2 text-center" title="Do not translate">Keep</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr key={entry.id} className="align-middle">
+                    <td className="py-1 pr-2">
+                      <input value={entry.term} onChange={(e) => update(entry.id, { term: e.target.value })} className={inputStyle} aria-label="Term" />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        value={entry.doNotTranslate ? entry.term : entry.translation}
+                        onChange={(e) => update(entry.id, { translation: e.target.value })}
+                        disabled={entry.doNotTranslate}
+                        className={inputStyle}
+                        aria-label="Translation"
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <select
+                        value={entry.language ?? ''}
+                        onChange={(e) => update(entry.id, { language: e.target.value || undefined })}
+                        className={inputStyle}
+                        aria-label="Language"
+                      >
+                        <option value="">All</option>
+                        {entry.language && !languages.some(l => l.code === entry.language) && (
+                          <option value={entry.language}>{entry.language}</option>
+                        )}
+                        {languages.map(language => (
+                          <option key={language.code} value={language.code}>{language.name}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-1 pr-2 text-center">
+                      <input
+                        type="checkbox"
+                        checked={entry.caseSensitive}
+                        onChange={(e) => update(entry.id, { caseSensitive: e.target.checked })}
+                        className="rounded border-slate-600 bg-slate-900 text-blue-500 focus:ring-blue-500"
+                        aria-label="Match case"
+                      />
+                    </td>
+                    <td className="py-1 pr-2 text-center">
+                      <input
+                        type="checkbox"
+                        checked={entry.doNotTranslate}
+                        onChange={(e) => update(entry.id, { doNotTranslate: e.target.checked })}
+                        className="rounded border-slate-600 bg-slate-900 text-blue-500 focus:ring-blue-500"
+                        aria-label="Do not translate"
+                      />
+                    </td>
+                    <td className="py-1">
+                      <button
+                        onClick={() => onChange(entries.filter(e => e.id !== entry.id))}
+                        className={`${iconButton} hover:text-red-300`}
+                        title="Remove term"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <Button variant="outline" onClick={handleAdd} className="w-full text-sm">
+            <Plus size={16} className="mr-2" /> Add term
+          </Button>
+        </div>
+      </aside>
+    </div>
+  );
+};
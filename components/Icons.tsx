@@ -1,4 +1,4 @@
 import React from 'react';
-import { Upload, FileVideo, Languages, Play, Pause, Loader2, Download, Volume2, Globe } from 'lucide-react';
+import { Upload, FileVideo, Languages, Play, Pause, Loader2, Download, Volume2, Globe, FileText, Pencil, RefreshCw, Mic, Undo2, Redo2, Check, X, Copy, Trash2, History, Film, VolumeX, Settings, Plus, BookOpen, Scissors, Gauge, Database } from 'lucide-react';
 
-export { Upload, FileVideo, Languages, Play, Pause, Loader2, Download, Volume2, Globe };
\ No newline at end of file
+export { Upload, FileVideo, Languages, Play, Pause, Loader2, Download, Volume2, Globe, FileText, Pencil, RefreshCw, Mic, Undo2, Redo2, Check, X, Copy, Trash2, History, Film, VolumeX, Settings, Plus, BookOpen, Scissors, Gauge, Database };
\ No newline at end of file
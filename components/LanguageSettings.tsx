@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2 } from './Icons';
+import { Button } from './Button';
+import { LANGUAGES } from '../types';
+import { VOICES } from '../services/voices';
+import { addCustomLanguage, AppSettings, canonicalLanguageCode, languageDisplayName, removeCustomLanguage } from '../services/settings';
+
+interface LanguageSettingsProps {
+  isOpen: boolean;
+  settings: AppSettings;
+  onClose: () => void;
+  onChange: (settings: AppSettings) => void;
+}
+
+const iconButton = "p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors";
+const inputStyle = "w-full bg-slate-900 border border-slate-600 rounded-md px-2 py-1.5 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none";
+
+export const LanguageSettings: React.FC<LanguageSettingsProps> = ({ isOpen, settings, onClose, onChange }) => {
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [voiceName, setVoiceName] = useState(VOICES[0].name);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  // Suggest a name ("pt-BR" -> "Portuguese (Brazil)") once the code is typed
+  const handleCodeBlur = () => {
+    const canonical = canonicalLanguageCode(code);
+    if (canonical && !name.trim()) setName(languageDisplayName(canonical));
+  };
+
+  const handleAdd = () => {
+    try {
+      onChange(addCustomLanguage(settings, { code, name, voiceName }));
+      setCode('');
+      setName('');
+      setErrorMsg(null);
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex justify-end">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+      <aside className="relative w-full max-w-sm h-full bg-slate-900 border-l border-slate-700 flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+          <h2 className="font-semibold text-white">Languages</h2>
+          <button onClick={onClose} className={iconButton} title="Close"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          <div className="space-y-3">
+            <p className="text-sm text-slate-400">
+              Add any target language by its BCP-47 code. Include a region for a specific variant, e.g. es-MX, es-ES or pt-BR.
+            </p>
+            <div className="grid grid-cols-3 gap-2">
+              <label className="text-xs text-slate-400 space-y-1">
+                <span>Code</span>
+                <input
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  onBlur={handleCodeBlur}
+                  placeholder="pt-BR"
+                  className={inputStyle}
+                />
+              </label>
+              <label className="col-span-2 text-xs text-slate-400 space-y-1">
+                <span>Name</span>
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Portuguese (Brazil)"
+                  className={inputStyle}
+                />
+              </label>
+            </div>
+            <label className="block text-xs text-slate-400 space-y-1">
+              <span>Default voice</span>
+              <select value={voiceName} onChange={(e) => setVoiceName(e.target.value)} className={inputStyle}>
+                {VOICES.map(voice => (
+                  <option key={voice.name} value={voice.name}>{voice.name} ({voice.gender}, {voice.description.toLowerCase()})</option>
+                ))}
+              </select>
+            </label>
+            {errorMsg && <p className="text-xs text-red-300">{errorMsg}</p>}
+            <Button variant="outline" onClick={handleAdd} disabled={!code.trim()} className="w-full text-sm">
+              <Plus size={16} className="mr-2" /> Add language
+            </Button>
+          </div>
+
+          <div>
+            <p className="text-xs font-medium uppercase tracking-wide text-slate-500 mb-2">Your languages</p>
+            {settings.customLanguages.length === 0 ? (
+              <p className="text-sm text-slate-500">None yet. The {LANGUAGES.length} built-in languages are always available.</p>
+            ) : (
+              <ul className="divide-y divide-slate-800 border border-slate-800 rounded-lg">
+                {settings.customLanguages.map(language => (
+                  <li key={language.code} className="flex items-center gap-2 px-3 py-2 text-sm">
+                    <span className="font-mono text-xs text-slate-400 w-14 shrink-0">{language.code}</span>
+                    <span className="flex-1 truncate text-white">{language.name}</span>
+                    <span className="text-xs text-slate-500">{language.voiceName}</span>
+                    <button
+                      onClick={() => onChange(removeCustomLanguage(settings, language.code))}
+                      className={`${iconButton} hover:text-red-300`}
+                      title={`Remove ${language.name}`}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </aside>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { Pencil, Copy, Trash2, X, Check, FileVideo, FileText } from './Icons';
+import { deleteProject, duplicateProject, listProjects, Project, renameProject } from '../services/projectStore';
+import { findLanguage } from '../services/settings';
+
+interface ProjectHistoryProps {
+  isOpen: boolean;
+  activeProjectId: string | null;
+  /** Bumped by the parent after each save so the list stays current. */
+  refreshKey: number;
+  onClose: () => void;
+  onOpen: (id: string) => void;
+  onDeleted: (id: string) => void;
+}
+
+const iconButton = "p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors";
+
+const languageName = (code: string) => findLanguage(code)?.name ?? code;
+
+export const ProjectHistory: React.FC<ProjectHistoryProps> = ({ isOpen, activeProjectId, refreshKey, onClose, onOpen, onDeleted }) => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+      setErrorMsg(null);
+    } catch (err) {
+      console.error(err);
+      setErrorMsg("Could not load saved projects. Local storage may be disabled in this browser.");
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, refreshKey]);
+
+  // Failures stay on screen until the next successful refresh
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      setErrorMsg(failure);
+      return;
+    }
+    refresh();
+  };
+
+  const handleRename = async (id: string) => {
+    const name = draftName.trim();
+    setRenamingId(null);
+    if (name) await run(() => renameProject(id, name), "Could not rename the project.");
+  };
+
+  const handleDuplicate = (id: string) => run(() => duplicateProject(id), "Could not duplicate the project.");
+
+  const handleDelete = async (project: Project) => {
+    if (!window.confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    await run(async () => {
+      await deleteProject(project.id);
+      onDeleted(project.id);
+    }, "Could not delete the project.");
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-20 flex justify-end">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+      <aside className="relative w-full max-w-sm h-full bg-slate-900 border-l border-slate-700 flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+          <h2 className="font-semibold text-white">Projects</h2>
+          <button onClick={onClose} className={iconButton} title="Close"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {errorMsg && <p className="p-4 text-sm text-red-300">{errorMsg}</p>}
+          {!errorMsg && projects.length === 0 && (
+            <p className="p-8 text-center text-sm text-slate-500">Translated videos are saved here automatically.</p>
+          )}
+          <ul className="divide-y divide-slate-800">
+            {projects.map(project => {
+              const languages = Object.keys(project.languages);
+              const segmentCount = languages.length ? project.languages[languages[0]].result.segments.length : 0;
+              return (
+                <li
+                  key={project.id}
+                  className={`p-4 group ${project.id === activeProjectId ? 'bg-slate-800/70' : 'hover:bg-slate-800/40'}`}
+                >
+                  {renamingId === project.id ? (
+                    <div className="flex items-center gap-2">
+                      <input
+                        autoFocus
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRename(project.id);
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className="flex-1 bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-sm text-white outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button onClick={() => handleRename(project.id)} className={`${iconButton} text-emerald-400`} title="Save"><Check size={16} /></button>
+                    </div>
+                  ) : (
+                    <div className="flex items-start justify-between gap-2">
+                      <button onClick={() => onOpen(project.id)} className="text-left flex-1 min-w-0">
+                        <div className="flex items-center gap-2 text-sm font-medium text-white">
+                          {project.media ? <FileVideo size={14} className="shrink-0 text-blue-400" /> : <FileText size={14} className="shrink-0 text-blue-400" />}
+                          <span className="truncate">{project.name}</span>
+                        </div>
+                        <p className="text-xs text-slate-500 mt-1">
+                          {new Date(project.updatedAt).toLocaleString()} • {segmentCount} segments
+                        </p>
+                        {languages.length > 0 && (
+                          <p className="text-xs text-slate-400 mt-0.5 truncate">{languages.map(languageName).join(', ')}</p>
+                        )}
+                      </button>
+                      <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                        <button
+                          onClick={() => { setRenamingId(project.id); setDraftName(project.name); }}
+                          className={iconButton}
+                          title="Rename"
+                        >
+                          <Pencil size={14} />
+                        </button>
+                        <button onClick={() => handleDuplicate(project.id)} className={iconButton} title="Duplicate"><Copy size={14} /></button>
+                        <button onClick={() => handleDelete(project)} className={`${iconButton} hover:text-red-300`} title="Delete"><Trash2 size={14} /></button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </aside>
+    </div>
+  );
+};
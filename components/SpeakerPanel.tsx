@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Segment, Speaker } from '../types';
+import { VOICES } from '../services/voices';
+
+interface SpeakerPanelProps {
+  speakers: Speaker[];
+  segments: Segment[];
+  /** Lines whose clip was generated from other text, voice or style. */
+  staleCount: number;
+  disabled?: boolean;
+  onChange: (speakers: Speaker[]) => void;
+  className?: string;
+}
+
+export const SPEAKER_COLORS = [
+  'text-sky-300 bg-sky-400/10',
+  'text-fuchsia-300 bg-fuchsia-400/10',
+  'text-amber-300 bg-amber-400/10',
+  'text-lime-300 bg-lime-400/10',
+  'text-rose-300 bg-rose-400/10',
+  'text-teal-300 bg-teal-400/10',
+];
+
+export const speakerColor = (id: string | undefined, speakers: Speaker[]) => {
+  const index = speakers.findIndex(speaker => speaker.id === id);
+  return index >= 0 ? SPEAKER_COLORS[index % SPEAKER_COLORS.length] : 'text-slate-300 bg-slate-600/40';
+};
+
+const selectClass = "bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-xs text-white focus:ring-2 focus:ring-blue-500 outline-none";
+
+export const SpeakerPanel: React.FC<SpeakerPanelProps> = ({
+  speakers,
+  segments,
+  staleCount,
+  disabled = false,
+  onChange,
+  className = '',
+}) => {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  if (speakers.length === 0) return null;
+
+  const update = (id: string, patch: Partial<Speaker>) =>
+    onChange(speakers.map(speaker => (speaker.id === id ? { ...speaker, ...patch } : speaker)));
+
+  const commitName = (speaker: Speaker) => {
+    const name = drafts[speaker.id]?.trim();
+    if (name && name !== speaker.name) update(speaker.id, { name });
+    setDrafts(({ [speaker.id]: _, ...rest }) => rest);
+  };
+
+  return (
+    <details className={`text-xs ${className}`}>
+      <summary className="cursor-pointer select-none text-slate-400">
+        {speakers.length} speaker{speakers.length === 1 ? '' : 's'}
+        {staleCount > 0 && <span className="text-amber-300"> • {staleCount} line{staleCount === 1 ? '' : 's'} need re-voicing</span>}
+      </summary>
+      <ul className="mt-2 space-y-2">
+        {speakers.map(speaker => (
+          <li key={speaker.id} className="flex items-center gap-2">
+            <span className={`shrink-0 px-1.5 py-0.5 rounded font-mono ${speakerColor(speaker.id, speakers)}`}>{speaker.id}</span>
+            <input
+              value={drafts[speaker.id] ?? speaker.name}
+              onChange={(e) => setDrafts({ ...drafts, [speaker.id]: e.target.value })}
+              onBlur={() => commitName(speaker)}
+              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+              disabled={disabled}
+              className={`${selectClass} flex-1 min-w-0`}
+              aria-label={`Name of ${speaker.id}`}
+            />
+            <select
+              value={speaker.voiceName ?? ''}
+              onChange={(e) => update(speaker.id, { voiceName: e.target.value || undefined })}
+              disabled={disabled}
+              className={selectClass}
+              aria-label={`Voice for ${speaker.name}`}
+            >
+              <option value="">Project voice</option>
+              {VOICES.map(voice => (
+                <option key={voice.name} value={voice.name}>{voice.name} ({voice.gender}, {voice.description.toLowerCase()})</option>
+              ))}
+            </select>
+            <span className="shrink-0 w-14 text-right text-slate-500">
+              {segments.filter(segment => segment.speaker === speaker.id).length} lines
+            </span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { Download } from './Icons';
+import { Segment } from '../types';
+import { exportSubtitles, SubtitleFormat, SubtitleTextMode } from '../services/subtitles';
+import { downloadText } from '../services/download';
+
+interface SubtitleDownloadsProps {
+  segments: Segment[];
+  filenameBase: string;
+  className?: string;
+}
+
+const FORMATS: SubtitleFormat[] = ['srt', 'vtt', 'ass'];
+
+const MODES: { value: SubtitleTextMode; label: string }[] = [
+  { value: 'translated', label: 'Translated' },
+  { value: 'original', label: 'Original' },
+  { value: 'bilingual', label: 'Bilingual' },
+];
+
+export const SubtitleDownloads: React.FC<SubtitleDownloadsProps> = ({ segments, filenameBase, className = '' }) => {
+  const [mode, setMode] = useState<SubtitleTextMode>('translated');
+
+  const handleDownload = (format: SubtitleFormat) => {
+    const { content, mimeType } = exportSubtitles(segments, format, { mode });
+    downloadText(content, `${filenameBase}.${mode}.${format}`, mimeType);
+  };
+
+  return (
+    <div className={`flex items-center gap-2 flex-wrap ${className}`}>
+      <span className="text-xs text-slate-400">Subtitles:</span>
+      <select
+        value={mode}
+        onChange={(e) => setMode(e.target.value as SubtitleTextMode)}
+        className="bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-xs text-white focus:ring-2 focus:ring-blue-500 outline-none"
+      >
+        {MODES.map(m => (
+          <option key={m.value} value={m.value}>{m.label}</option>
+        ))}
+      </select>
+      {FORMATS.map(format => (
+        <button
+          key={format}
+          onClick={() => handleDownload(format)}
+          disabled={segments.length === 0}
+          className="flex items-center gap-1 px-2 py-1 text-xs font-medium bg-slate-700 hover:bg-slate-600 border border-slate-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download size={12} /> {format.toUpperCase()}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,282 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pencil, RefreshCw, Mic, Undo2, Redo2, Check, X, Loader2, Download, Scissors } from './Icons';
+import { Segment, Speaker } from '../types';
+import { speakerColor } from './SpeakerPanel';
+import { SegmentDubReport } from '../services/dubbing';
+import { parseTimestamp } from '../services/timecode';
+import { speakerName } from '../services/speakers';
+import { GlossaryViolation } from '../services/glossary';
+import { isOverBudget, LengthBudget } from '../services/translationStyle';
+
+export type SegmentAction = 'translate' | 'voice' | 'shorten';
+
+interface TranscriptEditorProps {
+  segments: Segment[];
+  speakers?: Speaker[];
+  dubReports: SegmentDubReport[];
+  /** Indexes whose dub clip no longer matches the translated text. */
+  staleClips: boolean[];
+  /** Glossary rules each line breaks, by index. */
+  glossaryViolations?: GlossaryViolation[][];
+  /** Translation length against the project's characters-per-second limit, by index. */
+  lengthBudgets?: LengthBudget[];
+  busy: { index: number; action: SegmentAction } | null;
+  segmentError: { index: number; message: string } | null;
+  disabled?: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onChange: (index: number, segment: Segment) => void;
+  onRetranslate: (index: number) => void;
+  onRevoice: (index: number) => void;
+  /** Offered for lines over their length budget. */
+  onShorten?: (index: number) => void;
+  /** Offered for rows that have a generated clip. */
+  onDownloadClip?: (index: number) => void;
+  hasClip?: boolean[];
+  /** Segment under the playhead; highlighted and kept in view. */
+  activeIndex?: number | null;
+  onSeek?: (index: number) => void;
+  /** Untranslated transcript under review: only the source text is shown and edited. */
+  sourceOnly?: boolean;
+}
+
+const iconButton = "p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+const inputStyle = "w-full bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none";
+
+const SegmentForm: React.FC<{
+  segment: Segment;
+  speakers: Speaker[];
+  sourceOnly: boolean;
+  onSave: (segment: Segment) => void;
+  onCancel: () => void;
+}> = ({ segment, speakers, sourceOnly, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<Segment>(segment);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (field: keyof Segment) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => setDraft({ ...draft, [field]: e.target.value });
+
+  const handleSave = () => {
+    const start = parseTimestamp(draft.start);
+    const end = parseTimestamp(draft.end);
+    if (!Number.isFinite(start) || !Number.isFinite(end)) {
+      setError('Times must look like MM:SS or HH:MM:SS.');
+      return;
+    }
+    if (end <= start) {
+      setError('End must be after start.');
+      return;
+    }
+    const { speaker, ...rest } = draft;
+    onSave({ ...rest, start: draft.start.trim(), end: draft.end.trim(), ...(speaker ? { speaker } : {}) });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <input value={draft.start} onChange={update('start')} className={`${inputStyle} font-mono max-w-[110px]`} aria-label="Start" />
+        <span className="text-slate-500">-</span>
+        <input value={draft.end} onChange={update('end')} className={`${inputStyle} font-mono max-w-[110px]`} aria-label="End" />
+        {speakers.length > 0 && (
+          <select value={draft.speaker ?? ''} onChange={update('speaker')} className={`${inputStyle} max-w-[160px]`} aria-label="Speaker">
+            <option value="">No speaker</option>
+            {speakers.map(speaker => (
+              <option key={speaker.id} value={speaker.id}>{speaker.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+      <textarea value={draft.original} onChange={update('original')} rows={2} className={inputStyle} aria-label="Original text" />
+      {!sourceOnly && (
+        <textarea value={draft.translated} onChange={update('translated')} rows={2} className={`${inputStyle} text-emerald-300`} aria-label="Translated text" />
+      )}
+      {error && <p className="text-xs text-red-300">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className={iconButton} title="Cancel"><X size={16} /></button>
+        <button onClick={handleSave} className={`${iconButton} text-emerald-400`} title="Save"><Check size={16} /></button>
+      </div>
+    </div>
+  );
+};
+
+export const TranscriptEditor: React.FC<TranscriptEditorProps> = ({
+  segments,
+  speakers = [],
+  dubReports,
+  staleClips,
+  glossaryViolations = [],
+  lengthBudgets = [],
+  busy,
+  segmentError,
+  disabled = false,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onChange,
+  onRetranslate,
+  onRevoice,
+  onShorten,
+  onDownloadClip,
+  hasClip = [],
+  activeIndex = null,
+  onSeek,
+  sourceOnly = false,
+}) => {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Scroll only the list (not the page) so playback does not yank the window around
+  useEffect(() => {
+    const list = listRef.current;
+    const row = activeIndex !== null ? list?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`) : null;
+    if (!list || !row || editingIndex !== null) return;
+    const top = row.offsetTop - list.offsetTop;
+    if (top < list.scrollTop || top + row.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTo({ top: top - list.clientHeight / 3, behavior: 'smooth' });
+    }
+  }, [activeIndex, editingIndex]);
+
+  return (
+    <div className="flex flex-col min-h-0 flex-1">
+      <div className="flex items-center justify-end gap-1 px-4 py-1.5 border-b border-slate-700/50">
+        <button onClick={onUndo} disabled={!canUndo || disabled} className={iconButton} title="Undo edit">
+          <Undo2 size={16} />
+        </button>
+        <button onClick={onRedo} disabled={!canRedo || disabled} className={iconButton} title="Redo edit">
+          <Redo2 size={16} />
+        </button>
+      </div>
+
+      <div ref={listRef} className="relative overflow-y-auto p-0 flex-1 scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-transparent">
+        <div className="divide-y divide-slate-700/50">
+          {segments.map((segment, idx) => {
+            const report = dubReports[idx];
+            const isBusy = busy?.index === idx;
+            const violations = glossaryViolations[idx] ?? [];
+            const budget = lengthBudgets[idx];
+            const overBudget = budget ? isOverBudget(budget) : false;
+
+            return (
+              <div
+                key={idx}
+                data-index={idx}
+                className={`p-4 transition-colors group border-l-2 ${
+                  activeIndex === idx ? 'bg-blue-500/10 border-blue-400' : 'border-transparent hover:bg-slate-700/30'
+                }`}
+              >
+                {editingIndex === idx ? (
+                  <SegmentForm
+                    segment={segment}
+                    speakers={speakers}
+                    sourceOnly={sourceOnly}
+                    onCancel={() => setEditingIndex(null)}
+                    onSave={(updated) => {
+                      onChange(idx, updated);
+                      setEditingIndex(null);
+                    }}
+                  />
+                ) : (
+                  <>
+                    <div className="flex items-center justify-between mb-1 gap-2">
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => onSeek?.(idx)}
+                          disabled={!onSeek}
+                          className="text-xs font-mono text-blue-400 bg-blue-400/10 px-1.5 py-0.5 rounded enabled:hover:bg-blue-400/20 disabled:cursor-default"
+                          title={onSeek ? 'Play from here' : undefined}
+                        >
+                          {segment.start} - {segment.end}
+                        </button>
+                        {segment.speaker && (
+                          <span className={`text-xs px-1.5 py-0.5 rounded ${speakerColor(segment.speaker, speakers)}`}>
+                            {speakerName(segment.speaker, speakers)}
+                          </span>
+                        )}
+                        {report?.overflow > 0 && (
+                          <span
+                            className={`text-xs px-1.5 py-0.5 rounded ${report.fit === 'trimmed' ? 'text-red-300 bg-red-400/10' : 'text-amber-300 bg-amber-400/10'}`}
+                            title={`Speech is ${report.speechDuration.toFixed(1)}s for a ${report.slotDuration.toFixed(1)}s slot`}
+                          >
+                            +{report.overflow.toFixed(1)}s {report.fit}
+                          </span>
+                        )}
+                        {staleClips[idx] && (
+                          <span className="text-xs px-1.5 py-0.5 rounded text-slate-300 bg-slate-600/40" title="The dub for this line was generated from different text">
+                            audio outdated
+                          </span>
+                        )}
+                        {violations.length > 0 && (
+                          <span
+                            className="text-xs px-1.5 py-0.5 rounded text-amber-300 bg-amber-400/10"
+                            title={violations.map(v => `"${v.entry.term}" should be rendered as "${v.expected}"`).join('\n')}
+                          >
+                            glossary
+                          </span>
+                        )}
+                        {overBudget && (
+                          <span
+                            className="text-xs px-1.5 py-0.5 rounded text-amber-300 bg-amber-400/10"
+                            title="Translation is longer than the length limit allows for this segment's duration"
+                          >
+                            {budget.chars}/{budget.maxChars} chars
+                          </span>
+                        )}
+                      </div>
+                      <div className={`flex items-center gap-1 ${isBusy ? '' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'} transition-opacity`}>
+                        {isBusy ? (
+                          <Loader2 size={16} className="animate-spin text-blue-300" />
+                        ) : (
+                          <>
+                            <button onClick={() => setEditingIndex(idx)} disabled={disabled || busy !== null} className={iconButton} title="Edit segment">
+                              <Pencil size={14} />
+                            </button>
+                            {!sourceOnly && (
+                              <>
+                                <button onClick={() => onRetranslate(idx)} disabled={disabled || busy !== null} className={iconButton} title="Re-translate from original">
+                                  <RefreshCw size={14} />
+                                </button>
+                                {onShorten && overBudget && (
+                                  <button onClick={() => onShorten(idx)} disabled={disabled || busy !== null} className={iconButton} title="Shorten translation to fit">
+                                    <Scissors size={14} />
+                                  </button>
+                                )}
+                                <button onClick={() => onRevoice(idx)} disabled={disabled || busy !== null || !segment.translated.trim()} className={iconButton} title="Re-generate audio for this segment">
+                                  <Mic size={14} />
+                                </button>
+                                {onDownloadClip && hasClip[idx] && (
+                                  <button onClick={() => onDownloadClip(idx)} className={iconButton} title="Download audio for this segment">
+                                    <Download size={14} />
+                                  </button>
+                                )}
+                              </>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    </div>
+                    <div onClick={() => onSeek?.(idx)} className={onSeek ? 'cursor-pointer' : undefined}>
+                      {sourceOnly ? (
+                        <p className="text-slate-200">{segment.original}</p>
+                      ) : (
+                        <>
+                          <p className="text-slate-400 text-sm mb-1">{segment.original}</p>
+                          <p className="text-emerald-300 font-medium">{segment.translated}</p>
+                        </>
+                      )}
+                    </div>
+                  </>
+                )}
+                {segmentError?.index === idx && (
+                  <p className="mt-2 text-xs text-red-300">{segmentError.message}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Formality, TranslationStyle } from '../types';
+import { DEFAULT_MAX_CHARS_PER_SECOND } from '../services/translationStyle';
+
+interface TranslationStylePanelProps {
+  style: TranslationStyle;
+  disabled?: boolean;
+  onChange: (style: TranslationStyle) => void;
+}
+
+const inputStyle = "w-full bg-slate-900 border border-slate-600 rounded-md px-2 py-1.5 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none";
+
+const FORMALITIES: { value: Formality; label: string }[] = [
+  { value: 'default', label: 'Match the source' },
+  { value: 'formal', label: 'Formal' },
+  { value: 'informal', label: 'Casual' },
+];
+
+export const TranslationStylePanel: React.FC<TranslationStylePanelProps> = ({ style, disabled = false, onChange }) => {
+  const update = (patch: Partial<TranslationStyle>) => onChange({ ...style, ...patch });
+  const hasBudget = Boolean(style.maxCharsPerSecond);
+
+  return (
+    <details className="text-sm">
+      <summary className="cursor-pointer select-none text-slate-400">Translation style</summary>
+      <div className="mt-3 space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-xs text-slate-400 space-y-1">
+            <span>Formality</span>
+            <select
+              value={style.formality ?? 'default'}
+              onChange={(e) => update({ formality: e.target.value as Formality })}
+              disabled={disabled}
+              className={inputStyle}
+            >
+              {FORMALITIES.map(formality => (
+                <option key={formality.value} value={formality.value}>{formality.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs text-slate-400 space-y-1">
+            <span>Audience</span>
+            <input
+              value={style.audience ?? ''}
+              onChange={(e) => update({ audience: e.target.value })}
+              placeholder="e.g. kids, developers"
+              disabled={disabled}
+              className={inputStyle}
+            />
+          </label>
+        </div>
+        <label className="block text-xs text-slate-400 space-y-1">
+          <span>Extra instructions</span>
+          <textarea
+            value={style.instructions ?? ''}
+            onChange={(e) => update({ instructions: e.target.value })}
+            placeholder="e.g. Use US spelling. Keep jokes even if not literal."
+            rows={2}
+            disabled={disabled}
+            className={inputStyle}
+          />
+        </label>
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={hasBudget}
+              onChange={(e) => update({ maxCharsPerSecond: e.target.checked ? DEFAULT_MAX_CHARS_PER_SECOND : undefined })}
+              disabled={disabled}
+              className="rounded border-slate-600 bg-slate-900 text-blue-500 focus:ring-blue-500"
+            />
+            Limit length to fit timing:
+          </label>
+          <input
+            type="number"
+            min={5}
+            max={40}
+            value={style.maxCharsPerSecond ?? DEFAULT_MAX_CHARS_PER_SECOND}
+            onChange={(e) => update({ maxCharsPerSecond: Math.max(1, Number(e.target.value) || DEFAULT_MAX_CHARS_PER_SECOND) })}
+            disabled={disabled || !hasBudget}
+            className={`${inputStyle} w-16 py-1 disabled:opacity-40`}
+            aria-label="Maximum characters per second"
+          />
+          <span>characters per second</span>
+        </div>
+        <p className="text-xs text-slate-500">Applies to the next translation run and to re-translated lines.</p>
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,149 @@
+import React from 'react';
+import { X } from './Icons';
+import { DEFAULT_PRICES, formatCost, formatTokens, ModelPrice, PriceTable, priceFor, totalCost, UsageSummary } from '../services/usage';
+
+interface UsagePanelProps {
+  isOpen: boolean;
+  session: UsageSummary;
+  /** Usage of the open project, or null when there is none. */
+  project: UsageSummary | null;
+  prices: PriceTable;
+  spendingCapUsd: number | null;
+  onClose: () => void;
+  onPricesChange: (prices: PriceTable) => void;
+  onSpendingCapChange: (capUsd: number | null) => void;
+}
+
+const iconButton = "p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors";
+const inputStyle = "w-full bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none";
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'inputPerMillion', label: 'Input' },
+  { key: 'audioInputPerMillion', label: 'Audio in' },
+  { key: 'outputPerMillion', label: 'Output' },
+];
+
+const UsageTable: React.FC<{ title: string; usage: UsageSummary }> = ({ title, usage }) => {
+  const rows = [
+    { label: 'Analysis & translation', totals: usage.analysis },
+    { label: 'Speech (TTS)', totals: usage.tts },
+  ];
+  return (
+    <div>
+      <p className="text-xs font-medium uppercase tracking-wide text-slate-500 mb-2">{title}</p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-left text-slate-500">
+            <th className="font-medium pb-1" />
+            <th className="font-medium pb-1 text-right">Requests</th>
+            <th className="font-medium pb-1 text-right">Tokens in / out</th>
+            <th className="font-medium pb-1 text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody className="text-slate-300">
+          {rows.map(({ label, totals }) => (
+            <tr key={label}>
+              <td className="py-0.5">{label}</td>
+              <td className="py-0.5 text-right">{totals.requests}</td>
+              <td className="py-0.5 text-right">{formatTokens(totals.inputTokens)} / {formatTokens(totals.outputTokens)}</td>
+              <td className="py-0.5 text-right">{formatCost(totals.cost)}</td>
+            </tr>
+          ))}
+          <tr className="border-t border-slate-800 text-white font-medium">
+            <td className="pt-1">Total</td>
+            <td className="pt-1 text-right">{usage.analysis.requests + usage.tts.requests}</td>
+            <td />
+            <td className="pt-1 text-right">{formatCost(totalCost(usage))}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({
+  isOpen,
+  session,
+  project,
+  prices,
+  spendingCapUsd,
+  onClose,
+  onPricesChange,
+  onSpendingCapChange,
+}) => {
+  if (!isOpen) return null;
+
+  const models = [...new Set([...Object.keys(DEFAULT_PRICES), ...Object.keys(prices)])];
+
+  const updatePrice = (model: string, key: keyof ModelPrice, value: string) => {
+    const current = priceFor(model, prices)!;
+    onPricesChange({ ...prices, [model]: { ...current, [key]: Math.max(0, Number(value) || 0) } });
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex justify-end">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+      <aside className="relative w-full max-w-md h-full bg-slate-900 border-l border-slate-700 flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+          <h2 className="font-semibold text-white">Usage &amp; cost</h2>
+          <button onClick={onClose} className={iconButton} title="Close"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          <UsageTable title="This session" usage={session} />
+          {project && <UsageTable title="This project" usage={project} />}
+
+          <label className="block text-xs text-slate-400 space-y-1">
+            <span>Spending cap per session (USD)</span>
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={spendingCapUsd ?? ''}
+              onChange={(e) => onSpendingCapChange(Number(e.target.value) > 0 ? Number(e.target.value) : null)}
+              placeholder="No cap"
+              className={inputStyle}
+            />
+            <span className="block text-slate-500">New runs are blocked when their estimated cost would go over the cap.</span>
+          </label>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-xs font-medium uppercase tracking-wide text-slate-500">Prices (USD per 1M tokens)</p>
+              <button
+                onClick={() => onPricesChange({})}
+                disabled={Object.keys(prices).length === 0}
+                className="text-xs text-blue-400 hover:text-blue-300 disabled:text-slate-600"
+              >
+                Reset to defaults
+              </button>
+            </div>
+            <div className="space-y-3">
+              {models.map(model => (
+                <div key={model}>
+                  <p className="text-xs font-mono text-slate-300 mb-1">{model}</p>
+                  <div className="grid grid-cols-3 gap-2">
+                    {PRICE_FIELDS.map(field => (
+                      <label key={field.key} className="text-xs text-slate-500 space-y-1">
+                        <span>{field.label}</span>
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          value={priceFor(model, prices)?.[field.key] ?? 0}
+                          onChange={(e) => updatePrice(model, field.key, e.target.value)}
+                          className={inputStyle}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 mt-3">Costs are computed from reported token counts at these prices. Estimates before a run are rough.</p>
+          </div>
+        </div>
+      </aside>
+    </div>
+  );
+};
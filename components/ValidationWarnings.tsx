@@ -0,0 +1,36 @@
+import React from 'react';
+import { ValidationWarning } from '../types';
+
+interface ValidationWarningsProps {
+  warnings: ValidationWarning[];
+  className?: string;
+}
+
+// Codes that mean something is still wrong, as opposed to issues that were repaired automatically
+const NEEDS_ATTENTION = new Set<ValidationWarning['code']>(['empty_translation', 'empty_original', 'dropped_segment']);
+
+export const ValidationWarnings: React.FC<ValidationWarningsProps> = ({ warnings, className = '' }) => {
+  if (warnings.length === 0) return null;
+
+  const attention = warnings.filter(w => NEEDS_ATTENTION.has(w.code)).length;
+  const fixed = warnings.length - attention;
+  const summary = [
+    attention > 0 && `${attention} need${attention === 1 ? 's' : ''} attention`,
+    fixed > 0 && `${fixed} fixed automatically`,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <details className={`group text-xs ${className}`}>
+      <summary className={`cursor-pointer select-none ${attention > 0 ? 'text-amber-300' : 'text-slate-400'}`}>
+        {warnings.length} response issue{warnings.length === 1 ? '' : 's'} ({summary})
+      </summary>
+      <ul className="mt-2 space-y-1 max-h-32 overflow-y-auto">
+        {warnings.map((warning, idx) => (
+          <li key={idx} className={NEEDS_ATTENTION.has(warning.code) ? 'text-amber-200' : 'text-slate-400'}>
+            {warning.message}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
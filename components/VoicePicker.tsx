@@ -0,0 +1,174 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Pause, Loader2, Mic } from './Icons';
+import { SpeechPace, SpeechStyle } from '../types';
+import { findVoice, getVoicePreview, SPEECH_TONES, VOICES } from '../services/voices';
+import { SpeechSynthesizer } from '../services/dubbing';
+import { pcmBase64ToWavBlob } from '../services/audio';
+import { describeError } from '../services/request';
+
+interface VoicePickerProps {
+  /** Chosen voice, or null to use the language default. */
+  voiceName: string | null;
+  defaultVoice: string;
+  style: SpeechStyle;
+  synthesize: SpeechSynthesizer;
+  disabled?: boolean;
+  onVoiceChange: (voiceName: string | null) => void;
+  onStyleChange: (style: SpeechStyle) => void;
+}
+
+const inputStyle = "w-full bg-slate-900 border border-slate-600 rounded-md px-2 py-1.5 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none";
+
+const PACES: { value: SpeechPace; label: string }[] = [
+  { value: 'slow', label: 'Slow' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'fast', label: 'Fast' },
+];
+
+export const VoicePicker: React.FC<VoicePickerProps> = ({
+  voiceName,
+  defaultVoice,
+  style,
+  synthesize,
+  disabled = false,
+  onVoiceChange,
+  onStyleChange,
+}) => {
+  const [previewing, setPreviewing] = useState<{ voice: string; loading: boolean } | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const stopPreview = () => {
+    if (audioRef.current) {
+      audioRef.current.pause();
+      URL.revokeObjectURL(audioRef.current.src);
+      audioRef.current = null;
+    }
+    setPreviewing(null);
+  };
+
+  useEffect(() => stopPreview, []);
+
+  const handlePreview = async (voice: string) => {
+    const wasPlaying = previewing?.voice === voice;
+    stopPreview();
+    if (wasPlaying) return;
+
+    setPreviewError(null);
+    setPreviewing({ voice, loading: true });
+    try {
+      const pcm = await getVoicePreview(voice, synthesize, style);
+      const audio = new Audio(URL.createObjectURL(pcmBase64ToWavBlob(pcm)));
+      audio.onended = stopPreview;
+      audioRef.current = audio;
+      setPreviewing({ voice, loading: false });
+      await audio.play();
+    } catch (err) {
+      console.error("Voice preview failed:", err);
+      setPreviewError(describeError(err));
+      setPreviewing(null);
+    }
+  };
+
+  const update = (patch: Partial<SpeechStyle>) => onStyleChange({ ...style, ...patch });
+
+  const selected = voiceName ?? defaultVoice;
+  const options = [
+    { value: null, name: defaultVoice, label: `Language default (${defaultVoice})` },
+    ...VOICES.map(voice => ({ value: voice.name, name: voice.name, label: voice.name })),
+  ];
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-slate-300 flex items-center gap-2">
+        <Mic size={16} /> Voice
+        <span className="ml-auto text-xs font-normal text-slate-400">
+          {selected}{findVoice(selected) && ` • ${findVoice(selected)!.description}`}
+        </span>
+      </label>
+
+      <ul className="max-h-44 overflow-y-auto rounded-lg border border-slate-700 divide-y divide-slate-700/60" role="listbox" aria-label="Voice">
+        {options.map(option => {
+          const voice = findVoice(option.name);
+          const isSelected = option.value === voiceName;
+          const isPreviewing = previewing?.voice === option.name;
+          return (
+            <li
+              key={option.value ?? 'default'}
+              role="option"
+              aria-selected={isSelected}
+              className={`flex items-center gap-2 px-2 py-1.5 text-sm ${isSelected ? 'bg-blue-500/10 text-white' : 'text-slate-300 hover:bg-slate-700/40'}`}
+            >
+              <button
+                onClick={() => handlePreview(option.name)}
+                className="p-1 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                title={`Preview ${option.name}`}
+              >
+                {isPreviewing && previewing?.loading
+                  ? <Loader2 size={14} className="animate-spin" />
+                  : isPreviewing ? <Pause size={14} /> : <Play size={14} />}
+              </button>
+              <button
+                onClick={() => onVoiceChange(option.value)}
+                disabled={disabled}
+                className="flex-1 text-left flex items-center justify-between gap-2 disabled:cursor-not-allowed"
+              >
+                <span>{option.label}</span>
+                {voice && option.value && (
+                  <span className="text-xs text-slate-500">{voice.gender}, {voice.description.toLowerCase()}</span>
+                )}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      {previewError && <p className="text-xs text-red-300">Preview failed: {previewError}</p>}
+
+      <details className="text-sm">
+        <summary className="cursor-pointer select-none text-slate-400">Speaking style</summary>
+        <div className="mt-3 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-slate-400 space-y-1">
+              <span>Tone</span>
+              <select value={style.tone ?? 'neutral'} onChange={(e) => update({ tone: e.target.value })} disabled={disabled} className={inputStyle}>
+                {SPEECH_TONES.map(tone => (
+                  <option key={tone} value={tone}>{tone[0].toUpperCase() + tone.slice(1)}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-slate-400 space-y-1">
+              <span>Pace</span>
+              <select value={style.pace ?? 'normal'} onChange={(e) => update({ pace: e.target.value as SpeechPace })} disabled={disabled} className={inputStyle}>
+                {PACES.map(pace => (
+                  <option key={pace.value} value={pace.value}>{pace.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label className="block text-xs text-slate-400 space-y-1">
+            <span>Emotion</span>
+            <input
+              value={style.emotion ?? ''}
+              onChange={(e) => update({ emotion: e.target.value })}
+              placeholder="e.g. excited, calm, sympathetic"
+              disabled={disabled}
+              className={inputStyle}
+            />
+          </label>
+          <label className="block text-xs text-slate-400 space-y-1">
+            <span>Extra instructions</span>
+            <textarea
+              value={style.instructions ?? ''}
+              onChange={(e) => update({ instructions: e.target.value })}
+              placeholder="e.g. Pronounce product names in English."
+              rows={2}
+              disabled={disabled}
+              className={inputStyle}
+            />
+          </label>
+          <p className="text-xs text-slate-500">Changing the voice or style marks existing audio as outdated; re-voice lines to apply it.</p>
+        </div>
+      </details>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import { useCallback, useState } from 'react';
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+const MAX_HISTORY = 100;
+
+/**
+ * State with undo/redo. `set` records an undoable step, `reset` replaces the value
+ * and clears the history (e.g. when a fresh result arrives).
+ */
+export const useHistory = <T,>(initial: T) => {
+  const [state, setState] = useState<HistoryState<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((update: T | ((prev: T) => T)) => {
+    setState(current => {
+      const { past, present } = current;
+      const next = typeof update === 'function' ? (update as (prev: T) => T)(present) : update;
+      if (Object.is(next, present)) return current;
+      return { past: [...past, present].slice(-MAX_HISTORY), present: next, future: [] };
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setState({ past: [], present: value, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(current => {
+      const { past, present, future } = current;
+      if (past.length === 0) return current;
+      return { past: past.slice(0, -1), present: past[past.length - 1], future: [present, ...future] };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(current => {
+      const { past, present, future } = current;
+      if (future.length === 0) return current;
+      return { past: [...past, present], present: future[0], future: future.slice(1) };
+    });
+  }, []);
+
+  return {
+    value: state.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+};
@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Segment } from '../types';
+import { DubTrack } from '../services/dubbing';
+import { base64ToPcm16 } from '../services/audio';
+import { parseTimestamp } from '../services/timecode';
+
+export type OriginalAudioMode = 'full' | 'ducked' | 'muted';
+
+interface SyncedDubOptions {
+  segments: Segment[];
+  /** Play the dub alongside the video. */
+  dubEnabled: boolean;
+  originalAudio: OriginalAudioMode;
+  /** Original volume while a dubbed line plays, in ducked mode. */
+  duckLevel?: number;
+}
+
+// Re-align the dub when it drifts further than this from the video clock
+const MAX_DRIFT_SECONDS = 0.12;
+
+/**
+ * Keeps the dub track locked to a <video> element: it follows play/pause/seek and
+ * playback rate, ducks or mutes the original audio, and reports the segment under
+ * the playhead. Pass the element from a callback ref so the hook sees it mount.
+ */
+export const useSyncedDub = (
+  video: HTMLVideoElement | null,
+  dubTrack: DubTrack | null,
+  { segments, dubEnabled, originalAudio, duckLevel = 0.25 }: SyncedDubOptions
+) => {
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const contextRef = useRef<AudioContext | null>(null);
+  const bufferRef = useRef<AudioBuffer | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Bumped by every stop, so a start that awaited the context can tell it was superseded
+  const startTokenRef = useRef(0);
+  const dubEnabledRef = useRef(dubEnabled);
+  // Audio clock time and track offset of the running source, for drift checks
+  const anchorRef = useRef({ contextTime: 0, offset: 0, rate: 1 });
+
+  const times = useMemo(
+    () => segments.map(s => ({ start: parseTimestamp(s.start), end: parseTimestamp(s.end), voiced: Boolean(s.translated.trim()) })),
+    [segments]
+  );
+
+  const getContext = () => {
+    if (!contextRef.current) contextRef.current = new AudioContext();
+    return contextRef.current;
+  };
+
+  const stopDub = useCallback(() => {
+    // Also cancels a start still waiting for the context to resume
+    startTokenRef.current++;
+    if (sourceRef.current) {
+      try { sourceRef.current.stop(); } catch { /* not started */ }
+      sourceRef.current.disconnect();
+      sourceRef.current = null;
+    }
+  }, []);
+
+  const startDub = useCallback(async () => {
+    const buffer = bufferRef.current;
+    stopDub();
+    const token = startTokenRef.current;
+    if (!video || !buffer || !dubEnabledRef.current || video.paused || video.seeking) return;
+
+    const ctx = getContext();
+    if (ctx.state === 'suspended') {
+      await ctx.resume();
+      // A newer start or a stop came in meanwhile; only the latest call may create a source
+      if (token !== startTokenRef.current || video.paused || video.seeking) return;
+    }
+
+    const offset = video.currentTime;
+    if (offset >= buffer.duration) return;
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = video.playbackRate;
+    source.connect(ctx.destination);
+    source.start(0, offset);
+    sourceRef.current = source;
+    anchorRef.current = { contextTime: ctx.currentTime, offset, rate: video.playbackRate };
+  }, [video, stopDub]);
+
+  // Decode the track whenever it is rebuilt, picking up from the current position
+  useEffect(() => {
+    stopDub();
+    bufferRef.current = null;
+    if (!dubTrack) return;
+
+    const pcm = base64ToPcm16(dubTrack.audioBase64);
+    const buffer = getContext().createBuffer(1, Math.max(1, pcm.length), dubTrack.sampleRate);
+    const channel = buffer.getChannelData(0);
+    for (let i = 0; i < pcm.length; i++) channel[i] = pcm[i] / 32768;
+    bufferRef.current = buffer;
+    startDub();
+  }, [dubTrack, stopDub, startDub]);
+
+  useEffect(() => {
+    dubEnabledRef.current = dubEnabled;
+    if (dubEnabled) startDub();
+    else stopDub();
+  }, [dubEnabled, startDub, stopDub]);
+
+  useEffect(() => () => {
+    stopDub();
+    contextRef.current?.close();
+    contextRef.current = null;
+  }, [stopDub]);
+
+  // Follow the video's transport
+  useEffect(() => {
+    if (!video) return;
+
+    const handleTimeUpdate = () => {
+      const ctx = contextRef.current;
+      if (!sourceRef.current || !ctx || video.paused) return;
+      const { contextTime, offset, rate } = anchorRef.current;
+      const expected = offset + (ctx.currentTime - contextTime) * rate;
+      if (Math.abs(expected - video.currentTime) > MAX_DRIFT_SECONDS) startDub();
+    };
+
+    const events: [string, () => void][] = [
+      ['playing', startDub],
+      ['seeked', startDub],
+      ['ratechange', startDub],
+      ['pause', stopDub],
+      ['waiting', stopDub],
+      ['seeking', stopDub],
+      ['ended', stopDub],
+      ['timeupdate', handleTimeUpdate],
+    ];
+    events.forEach(([name, handler]) => video.addEventListener(name, handler));
+    return () => {
+      events.forEach(([name, handler]) => video.removeEventListener(name, handler));
+      stopDub();
+    };
+  }, [video, startDub, stopDub]);
+
+  useEffect(() => {
+    if (!video) return;
+    video.muted = originalAudio === 'muted';
+    video.volume = 1;
+  }, [video, originalAudio]);
+
+  // Track the active segment and duck the original audio under dubbed lines
+  useEffect(() => {
+    if (!video) return;
+
+    let frame = 0;
+    const update = () => {
+      const t = video.currentTime;
+      const index = times.findIndex(s => t >= s.start && t < s.end);
+      setActiveIndex(index >= 0 ? index : null);
+
+      if (originalAudio === 'ducked') {
+        const speaking = dubEnabled && Boolean(dubTrack) && index >= 0 && times[index].voiced;
+        video.volume = speaking ? duckLevel : 1;
+      }
+
+      if (!video.paused) frame = requestAnimationFrame(update);
+    };
+    const restart = () => {
+      cancelAnimationFrame(frame);
+      update();
+    };
+
+    const events = ['play', 'pause', 'seeked'];
+    events.forEach(name => video.addEventListener(name, restart));
+    restart();
+    return () => {
+      cancelAnimationFrame(frame);
+      events.forEach(name => video.removeEventListener(name, restart));
+    };
+  }, [video, times, dubEnabled, dubTrack, originalAudio, duckLevel]);
+
+  const seek = useCallback((seconds: number) => {
+    if (!video || !Number.isFinite(seconds)) return;
+    // 'seeked' restarts the dub at the new position
+    video.currentTime = seconds;
+  }, [video]);
+
+  return { activeIndex, seek };
+};
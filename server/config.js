@@ -0,0 +1,73 @@
+// @ts-check
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * Server settings, read from the environment. `.env.local` and `.env` in the project
+ * root are loaded first (without overriding real environment variables), so the same
+ * file configures both the Vite dev server and this one.
+ */
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+/**
+ * Minimal dotenv: KEY=VALUE lines, optional quotes, # comments.
+ * @param {string} file
+ */
+const loadEnvFile = (file) => {
+  if (!existsSync(file)) return;
+  for (const line of readFileSync(file, 'utf8').split(/\r?\n/)) {
+    const match = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!match || match[1] in process.env) continue;
+    process.env[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+  }
+};
+
+loadEnvFile(path.join(ROOT, '.env.local'));
+loadEnvFile(path.join(ROOT, '.env'));
+
+/**
+ * @param {string} name
+ * @param {number} fallback
+ */
+const numberEnv = (name, fallback) => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const ANALYSIS_MODELS = ['gemini-2.5-flash'];
+const TTS_MODELS = ['gemini-2.5-flash-preview-tts'];
+
+/**
+ * @typedef {'analyze' | 'translate' | 'tts'} Endpoint
+ * @typedef {{ models: string[]; maxBodyBytes: number; requestsPerMinute: number }} EndpointConfig
+ */
+
+/** @type {Record<Endpoint, EndpointConfig>} */
+export const ENDPOINTS = {
+  // Videos are sent inline as base64, about 4/3 of their size
+  analyze: { models: ANALYSIS_MODELS, maxBodyBytes: numberEnv('MAX_ANALYZE_BODY_MB', 30) * 1024 * 1024, requestsPerMinute: numberEnv('RATE_LIMIT_ANALYZE', 6) },
+  translate: { models: ANALYSIS_MODELS, maxBodyBytes: 1024 * 1024, requestsPerMinute: numberEnv('RATE_LIMIT_TRANSLATE', 60) },
+  tts: { models: TTS_MODELS, maxBodyBytes: 256 * 1024, requestsPerMinute: numberEnv('RATE_LIMIT_TTS', 120) },
+};
+
+/** @param {string} name @returns {name is Endpoint} */
+export const isEndpoint = (name) => Object.prototype.hasOwnProperty.call(ENDPOINTS, name);
+
+const distDir = path.join(ROOT, 'dist');
+
+export const config = {
+  port: numberEnv('PORT', 8787),
+  // Local only by default; set HOST=0.0.0.0 behind a reverse proxy
+  host: process.env.HOST || '127.0.0.1',
+  apiKey: process.env.GEMINI_API_KEY || '',
+  /** Answer with canned responses instead of calling Gemini. */
+  stub: process.argv.includes('--stub') || process.env.GEMINI_STUB === '1',
+  /** Serves the built app when present, so one process can host everything. */
+  staticDir: existsSync(distDir) ? distDir : null,
+  /** Clients behind one address share this multiple of the per-user limit. */
+  perAddressFactor: numberEnv('RATE_LIMIT_ADDRESS_FACTOR', 4),
+  /** Trust X-Forwarded-For for the client address (only behind a reverse proxy). */
+  trustProxy: process.env.TRUST_PROXY === '1',
+};
@@ -0,0 +1,364 @@
+// @ts-check
+import http from 'node:http';
+import { createReadStream, statSync } from 'node:fs';
+import path from 'node:path';
+import { GoogleGenAI } from '@google/genai';
+import { config, ENDPOINTS, isEndpoint } from './config.js';
+import { createRateLimiter } from './rateLimit.js';
+import { logRequest } from './log.js';
+import { stubGenerate, stubGenerateStream } from './stub.js';
+
+/**
+ * API proxy. Holds the Gemini key so it never reaches the browser, and exposes one
+ * POST endpoint per kind of call (`/api/analyze`, `/api/translate`, `/api/tts`) that
+ * takes `generateContent` parameters and returns its response as JSON, or with `?stream=1`
+ * as newline-delimited JSON chunks. Each endpoint has its own model allowlist, body size
+ * limit and per-user rate limit.
+ */
+
+/**
+ * @typedef {import('./config.js').Endpoint} Endpoint
+ * @typedef {import('./log.js').RequestLogEntry} RequestLogEntry
+ */
+
+class HttpError extends Error {
+  /**
+   * @param {number} status
+   * @param {string} message
+   * @param {Record<string, string>} [headers]
+   */
+  constructor(status, message, headers = {}) {
+    super(message);
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+// Generation settings the client may pass through; anything else (tools, caches...) is dropped
+const ALLOWED_CONFIG_KEYS = new Set([
+  'responseMimeType',
+  'responseSchema',
+  'responseModalities',
+  'speechConfig',
+  'temperature',
+  'topP',
+  'topK',
+  'maxOutputTokens',
+  'thinkingConfig',
+  'systemInstruction',
+]);
+
+// Self-assigned by the client and kept in localStorage; see services/proxyClient.ts
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+if (!config.stub && !config.apiKey) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local, or start with --stub to use canned responses.');
+  process.exit(1);
+}
+
+const ai = config.stub ? null : new GoogleGenAI({ apiKey: config.apiKey });
+
+const limiters = Object.fromEntries(
+  Object.entries(ENDPOINTS).map(([name, endpoint]) => [
+    name,
+    {
+      user: createRateLimiter(endpoint.requestsPerMinute),
+      // Client ids are not authenticated, so one address cannot get around the limit by rotating them
+      address: createRateLimiter(endpoint.requestsPerMinute * config.perAddressFactor),
+    },
+  ])
+);
+
+/** @param {http.IncomingMessage} req */
+const clientAddress = (req) => {
+  const forwarded = config.trustProxy ? String(req.headers['x-forwarded-for'] ?? '').split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+/** @param {http.IncomingMessage} req @param {string} address */
+const clientId = (req, address) => {
+  const header = req.headers['x-client-id'];
+  return typeof header === 'string' && CLIENT_ID_PATTERN.test(header) ? header : `address:${address}`;
+};
+
+/**
+ * @param {Endpoint} endpoint
+ * @param {string} user
+ * @param {string} address
+ */
+const checkRateLimit = (endpoint, user, address) => {
+  // Both buckets are checked before either is taken from, so a rejected request costs nothing
+  const limiter = limiters[endpoint];
+  const retryAfterMs = Math.max(limiter.address.peek(address), limiter.user.peek(user));
+  if (retryAfterMs > 0) {
+    const seconds = Math.ceil(retryAfterMs / 1000);
+    throw new HttpError(429, `Rate limit reached for ${endpoint}. Try again in ${seconds}s.`, { 'Retry-After': String(seconds) });
+  }
+  limiter.address.take(address);
+  limiter.user.take(user);
+};
+
+/**
+ * @param {http.IncomingMessage} req
+ * @param {number} maxBytes
+ * @returns {Promise<Buffer>}
+ */
+const readBody = (req, maxBytes) =>
+  new Promise((resolve, reject) => {
+    // The rest of the body is drained rather than the socket destroyed, so the client gets the
+    // 413 (and does not retry the upload)
+    const tooLarge = () => new HttpError(413, `Request body is larger than ${Math.round(maxBytes / 1024 / 1024)} MB.`);
+    if (Number(req.headers['content-length']) > maxBytes) {
+      req.resume();
+      reject(tooLarge());
+      return;
+    }
+    /** @type {Buffer[]} */
+    const chunks = [];
+    let size = 0;
+    const onData = (/** @type {Buffer} */ chunk) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.off('data', onData);
+        req.resume();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+/**
+ * Validates the request against the endpoint's rules and keeps only what is forwarded.
+ * @param {Endpoint} endpoint
+ * @param {Buffer} body
+ */
+const parseGenerateRequest = (endpoint, body) => {
+  /** @type {any} */
+  let json;
+  try {
+    json = JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON.');
+  }
+  if (!json || typeof json !== 'object') throw new HttpError(400, 'Request body must be an object.');
+  if (!ENDPOINTS[endpoint].models.includes(json.model)) {
+    throw new HttpError(400, `Model "${json.model}" is not allowed for ${endpoint}.`);
+  }
+  if (!json.contents) throw new HttpError(400, 'Missing "contents".');
+
+  /** @type {Record<string, unknown>} */
+  const generationConfig = {};
+  for (const [key, value] of Object.entries(json.config ?? {})) {
+    if (ALLOWED_CONFIG_KEYS.has(key)) generationConfig[key] = value;
+  }
+  return { model: /** @type {string} */ (json.model), contents: json.contents, config: generationConfig };
+};
+
+/**
+ * @param {http.ServerResponse} res
+ * @param {number} status
+ * @param {unknown} body
+ * @param {Record<string, string>} [headers]
+ */
+const sendJson = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * @param {Endpoint} endpoint
+ * @param {http.IncomingMessage} req
+ * @param {http.ServerResponse} res
+ * @param {RequestLogEntry} entry
+ * @param {boolean} stream
+ */
+const handleGenerate = async (endpoint, req, res, entry, stream) => {
+  checkRateLimit(endpoint, entry.user, entry.address);
+
+  const body = await readBody(req, ENDPOINTS[endpoint].maxBodyBytes);
+  entry.requestBytes = body.length;
+  const params = parseGenerateRequest(endpoint, body);
+  entry.model = params.model;
+
+  // Stop the upstream call when the browser gives up (cancel, timeout, closed tab)
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  if (stream) {
+    await streamGenerate(endpoint, params, controller.signal, res, entry);
+    return;
+  }
+
+  const response = ai
+    ? await ai.models.generateContent({ ...params, config: { ...params.config, abortSignal: controller.signal } })
+    : stubGenerate(endpoint, params);
+
+  recordUsage(entry, response);
+  const { sdkHttpResponse: _httpResponse, ...payload } = /** @type {any} */ (response);
+  sendJson(res, 200, payload);
+};
+
+/**
+ * @param {RequestLogEntry} entry
+ * @param {{ usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number } }} response
+ */
+const recordUsage = (entry, response) => {
+  const usage = response.usageMetadata;
+  entry.inputTokens = usage?.promptTokenCount;
+  entry.outputTokens = (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0);
+};
+
+/**
+ * Writes each chunk as one JSON line as soon as it arrives. Usage comes with the last chunk.
+ * Once streaming has started the status can no longer change, so a later failure is sent as
+ * a final `{"error": ...}` line.
+ * @param {Endpoint} endpoint
+ * @param {any} params
+ * @param {AbortSignal} signal
+ * @param {http.ServerResponse} res
+ * @param {RequestLogEntry} entry
+ */
+const streamGenerate = async (endpoint, params, signal, res, entry) => {
+  const chunks = ai
+    ? await ai.models.generateContentStream({ ...params, config: { ...params.config, abortSignal: signal } })
+    : stubGenerateStream(endpoint, params);
+
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+  try {
+    for await (const chunk of chunks) {
+      if (signal.aborted) break;
+      if (chunk.usageMetadata) recordUsage(entry, chunk);
+      const { sdkHttpResponse: _httpResponse, ...payload } = /** @type {any} */ (chunk);
+      res.write(`${JSON.stringify(payload)}\n`);
+    }
+  } catch (error) {
+    const httpError = toHttpError(error);
+    if (!res.destroyed) res.write(`${JSON.stringify({ error: { status: httpError.status, message: httpError.message } })}\n`);
+    throw error;
+  } finally {
+    res.end();
+  }
+};
+
+const CONTENT_TYPES = /** @type {Record<string, string>} */ ({
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+});
+
+/**
+ * Serves the built app, falling back to index.html for client-side routes. Resolves once the
+ * file is open, so a file that disappeared after the stat is still answered with an error.
+ * @param {string} root
+ * @param {string} pathname
+ * @param {http.ServerResponse} res
+ * @returns {Promise<void>}
+ */
+const serveStatic = async (root, pathname, res) => {
+  let decoded;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    throw new HttpError(400, 'Bad request.');
+  }
+  let file = path.join(root, path.normalize(decoded));
+  if (!file.startsWith(root)) throw new HttpError(404, 'Not found.');
+  let stats = statSync(file, { throwIfNoEntry: false });
+  if (!stats?.isFile()) {
+    file = path.join(root, 'index.html');
+    stats = statSync(file, { throwIfNoEntry: false });
+    if (!stats) throw new HttpError(404, 'Not found.');
+  }
+  const size = stats.size;
+  const stream = createReadStream(file);
+  await new Promise((resolve, reject) => {
+    stream.once('open', () => {
+      res.writeHead(200, {
+        'Content-Type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream',
+        'Content-Length': size,
+      });
+      stream.pipe(res);
+      resolve(undefined);
+    });
+    stream.on('error', (/** @type {NodeJS.ErrnoException} */ error) => {
+      // After the headers only the connection can signal the failure
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
+      reject(error.code === 'ENOENT' ? new HttpError(404, 'Not found.') : new HttpError(500, 'Could not read the file.'));
+    });
+  });
+};
+
+/**
+ * Maps an upstream SDK error onto a status and message for the client. Statuses pass
+ * through so the client's error classification (quota, safety, bad media...) still works.
+ * @param {unknown} error
+ */
+const toHttpError = (error) => {
+  if (error instanceof HttpError) return error;
+  const err = /** @type {any} */ (error);
+  const status = typeof err?.status === 'number' && err.status >= 400 ? err.status : 502;
+  return new HttpError(status, String(err?.message || 'Upstream request failed.'));
+};
+
+const server = http.createServer(async (req, res) => {
+  const started = Date.now();
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const address = clientAddress(req);
+  /** @type {RequestLogEntry} */
+  const entry = {
+    user: clientId(req, address),
+    address,
+    method: req.method ?? 'GET',
+    path: url.pathname,
+    status: 200,
+    durationMs: 0,
+  };
+
+  try {
+    const apiMatch = /^\/api\/([a-z]+)$/.exec(url.pathname);
+    if (url.pathname === '/api/health') {
+      sendJson(res, 200, { ok: true, stub: config.stub });
+    } else if (apiMatch) {
+      if (!isEndpoint(apiMatch[1])) throw new HttpError(404, `Unknown endpoint ${url.pathname}.`);
+      if (req.method !== 'POST') throw new HttpError(405, 'Use POST.', { Allow: 'POST' });
+      await handleGenerate(apiMatch[1], req, res, entry, url.searchParams.get('stream') === '1');
+    } else if (config.staticDir && req.method === 'GET') {
+      await serveStatic(config.staticDir, url.pathname, res);
+    } else {
+      throw new HttpError(404, 'Not found.');
+    }
+  } catch (error) {
+    const httpError = toHttpError(error);
+    entry.status = httpError.status;
+    entry.error = httpError.message;
+    if (!res.headersSent && !res.destroyed) {
+      sendJson(res, httpError.status, { error: { status: httpError.status, message: httpError.message } }, httpError.headers);
+    }
+  } finally {
+    entry.durationMs = Date.now() - started;
+    // Static files are not worth a log line each
+    if (url.pathname.startsWith('/api/')) logRequest(entry);
+  }
+});
+
+server.listen(config.port, config.host, () => {
+  console.log(
+    `API proxy listening on http://${config.host}:${config.port}` +
+    `${config.stub ? ' (stub responses, no API key used)' : ''}` +
+    `${config.staticDir ? `, serving ${config.staticDir}` : ''}`
+  );
+});
@@ -0,0 +1,29 @@
+// @ts-check
+
+/**
+ * Request log: one JSON object per line on stdout, so it can be piped into any
+ * log collector or inspected with `jq`. Request and response bodies are never logged.
+ */
+
+/**
+ * @typedef {{
+ *   user: string;
+ *   address: string;
+ *   method: string;
+ *   path: string;
+ *   status: number;
+ *   durationMs: number;
+ *   model?: string;
+ *   requestBytes?: number;
+ *   inputTokens?: number;
+ *   outputTokens?: number;
+ *   error?: string;
+ * }} RequestLogEntry
+ */
+
+/**
+ * @param {RequestLogEntry} entry
+ */
+export const logRequest = (entry) => {
+  process.stdout.write(`${JSON.stringify({ time: new Date().toISOString(), ...entry })}\n`);
+};
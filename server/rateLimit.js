@@ -0,0 +1,70 @@
+// @ts-check
+
+/**
+ * Token-bucket rate limiting, in memory. Each key gets `capacity` requests that refill
+ * evenly over a minute, so short bursts are allowed but sustained use is capped.
+ */
+
+// Full buckets carry no state worth keeping
+const PRUNE_INTERVAL_MS = 5 * 60_000;
+
+/**
+ * @param {number} requestsPerMinute
+ */
+export const createRateLimiter = (requestsPerMinute) => {
+  const capacity = Math.max(1, requestsPerMinute);
+  const refillPerMs = capacity / 60_000;
+  /** @type {Map<string, { tokens: number; updatedAt: number }>} */
+  const buckets = new Map();
+  let lastPrune = Date.now();
+
+  /** @param {number} now */
+  const prune = (now) => {
+    for (const [key, bucket] of buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) * refillPerMs >= capacity) buckets.delete(key);
+    }
+    lastPrune = now;
+  };
+
+  /**
+   * `key`'s bucket, refilled up to `now`.
+   * @param {string} key
+   * @param {number} now
+   */
+  const refill = (key, now) => {
+    if (now - lastPrune > PRUNE_INTERVAL_MS) prune(now);
+
+    const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    buckets.set(key, bucket);
+    return bucket;
+  };
+
+  /**
+   * Checks `key`'s bucket without taking from it. Returns 0 when a request would be
+   * allowed, otherwise how many milliseconds until it would be.
+   * @param {string} key
+   * @param {number} [now]
+   * @returns {number}
+   */
+  const peek = (key, now = Date.now()) => {
+    const bucket = refill(key, now);
+    return bucket.tokens < 1 ? Math.ceil((1 - bucket.tokens) / refillPerMs) : 0;
+  };
+
+  /**
+   * Takes one request from `key`'s bucket. Returns 0 when allowed, otherwise how many
+   * milliseconds until the next request would be.
+   * @param {string} key
+   * @param {number} [now]
+   * @returns {number}
+   */
+  const take = (key, now = Date.now()) => {
+    const retryAfterMs = peek(key, now);
+    if (retryAfterMs === 0) refill(key, now).tokens -= 1;
+    return retryAfterMs;
+  };
+
+  return { peek, take };
+};
@@ -0,0 +1,157 @@
+// @ts-check
+
+/**
+ * Canned Gemini responses for local development, enabled with `--stub` or GEMINI_STUB=1.
+ * Responses have the same shape as `generateContent`'s (including `usageMetadata`), and
+ * are derived from the prompt where that is easy, so the whole client path is exercised
+ * without an API key.
+ */
+
+const SAMPLE_RATE = 24000;
+const SECONDS_PER_LINE = 4;
+
+const CANNED_LINES = [
+  'Welcome back to the channel.',
+  'Today we are looking at how video translation works.',
+  'First, the speech is transcribed with timestamps.',
+  'Then every line is translated and voiced again.',
+];
+
+/**
+ * @typedef {{ text?: string; inlineData?: { mimeType?: string; data?: string } }} Part
+ * @typedef {{ model: string; contents: unknown; config?: Record<string, unknown> }} GenerateParams
+ */
+
+/** @param {unknown} contents @returns {Part[]} */
+const partsOf = (contents) => {
+  const list = Array.isArray(contents) ? contents : [contents];
+  return list.flatMap(content =>
+    typeof content === 'string' ? [{ text: content }] : Array.isArray(content?.parts) ? content.parts : []
+  );
+};
+
+/** @param {number} n */
+const pad = (n) => String(n).padStart(2, '0');
+/** @param {number} seconds */
+const toMmSs = (seconds) => `${pad(Math.floor(seconds / 60))}:${pad(seconds % 60)}`;
+
+/** @param {string} prompt */
+const targetLanguageOf = (prompt) =>
+  /(?:translate[^\n]*? to|Rewrite it in) ([^.,\n]+?)(?: in at most|[.,\n])/i.exec(prompt)?.[1]?.trim() || 'Translation';
+
+/** @param {string} text @param {string} language */
+const fakeTranslate = (text, language) => `[${language}] ${text}`;
+
+/** @param {string} prompt */
+const transcriptResult = (prompt) => ({
+  detectedLanguage: /is in ([^.]+)\. Do not detect/.exec(prompt)?.[1] ?? 'English',
+  summary: 'A short stub video about how video translation works.',
+  segments: CANNED_LINES.map((line, i) => ({
+    start: toMmSs(i * SECONDS_PER_LINE),
+    end: toMmSs((i + 1) * SECONDS_PER_LINE - 1),
+    original: line,
+    speaker: i % 2 === 0 ? 'S1' : 'S2',
+  })),
+  speakers: [
+    { id: 'S1', gender: 'female', age: 'adult' },
+    { id: 'S2', gender: 'male', age: 'adult' },
+  ],
+});
+
+/** @param {string} prompt */
+const textResult = (prompt) => {
+  const language = targetLanguageOf(prompt);
+
+  const lines = /Lines:\s*(\[[\s\S]*\])/.exec(prompt)?.[1];
+  if (lines) {
+    /** @type {{ index: number; text: string; maxChars?: number }[]} */
+    const parsed = JSON.parse(lines);
+    return {
+      detectedLanguage: /is in ([^.]+)\. Do not detect/.exec(prompt)?.[1] ?? 'English',
+      summary: 'Stub translation of imported captions.',
+      translations: parsed.map(line => ({
+        index: line.index,
+        translated: fakeTranslate(line.text, language).slice(0, line.maxChars ?? Infinity),
+      })),
+    };
+  }
+
+  const maxChars = /in at most (\d+) characters/.exec(prompt)?.[1];
+  const translation = /TRANSLATION \(\d+ characters\): (.*)/.exec(prompt)?.[1];
+  if (maxChars && translation) {
+    const limit = Number(maxChars);
+    return { translated: translation.length > limit ? `${translation.slice(0, limit - 1).trimEnd()}…` : translation };
+  }
+
+  const target = /TARGET: (.*)/.exec(prompt)?.[1];
+  if (target) return { translated: fakeTranslate(target, language) };
+
+  // Anything else is a repair of a malformed transcript
+  return transcriptResult(prompt);
+};
+
+/**
+ * A quiet sine tone, 16-bit little-endian PCM, whose length follows the text.
+ * @param {string} text
+ */
+const tone = (text) => {
+  const samples = Math.round(Math.max(0.5, text.length * 0.06) * SAMPLE_RATE);
+  const buffer = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const envelope = Math.min(1, i / 240, (samples - i) / 240);
+    buffer.writeInt16LE(Math.round(Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE) * envelope * 0.3 * 32767), i * 2);
+  }
+  return buffer.toString('base64');
+};
+
+/**
+ * @param {import('./config.js').Endpoint} endpoint
+ * @param {GenerateParams} params
+ */
+export const stubGenerate = (endpoint, params) => {
+  const parts = partsOf(params.contents);
+  const prompt = parts.map(part => part.text ?? '').join('\n');
+  const promptTokenCount = Math.ceil(prompt.length / 4) + (parts.some(part => part.inlineData) ? 2000 : 0);
+
+  /** @type {Part} */
+  let part;
+  if (endpoint === 'tts') {
+    part = { inlineData: { mimeType: `audio/L16;codec=pcm;rate=${SAMPLE_RATE}`, data: tone(prompt) } };
+  } else {
+    const result = endpoint === 'analyze' && parts.some(part => part.inlineData) ? transcriptResult(prompt) : textResult(prompt);
+    part = { text: JSON.stringify(result) };
+  }
+
+  const candidatesTokenCount = Math.ceil((part.text?.length ?? (part.inlineData?.data?.length ?? 0) / 100) / 4);
+  return {
+    candidates: [{ content: { role: 'model', parts: [part] }, finishReason: 'STOP', index: 0 }],
+    modelVersion: `${params.model}-stub`,
+    usageMetadata: { promptTokenCount, candidatesTokenCount, totalTokenCount: promptTokenCount + candidatesTokenCount },
+  };
+};
+
+/**
+ * `stubGenerate` as a stream: the text arrives in a few delayed pieces, with the finish
+ * reason and usage on the last one, like the real streaming API.
+ * @param {import('./config.js').Endpoint} endpoint
+ * @param {GenerateParams} params
+ */
+export async function* stubGenerateStream(endpoint, params) {
+  const response = stubGenerate(endpoint, params);
+  const text = response.candidates[0].content.parts[0].text;
+  if (text === undefined) {
+    yield response;
+    return;
+  }
+  const PIECES = 6;
+  const size = Math.ceil(text.length / PIECES);
+  for (let start = 0; start < text.length; start += size) {
+    await new Promise(resolve => setTimeout(resolve, 150));
+    const last = start + size >= text.length;
+    yield {
+      candidates: [{ content: { role: 'model', parts: [{ text: text.slice(start, start + size) }] }, ...(last && { finishReason: 'STOP' }), index: 0 }],
+      modelVersion: response.modelVersion,
+      ...(last && { usageMetadata: response.usageMetadata }),
+    };
+  }
+}
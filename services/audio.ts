@@ -0,0 +1,84 @@
+/**
+ * Sample rate of the raw 16-bit mono PCM returned by the Gemini TTS model.
+ */
+export const TTS_SAMPLE_RATE = 24000;
+
+/**
+ * Decodes a base64 string of little-endian 16-bit PCM into samples.
+ */
+export const base64ToPcm16 = (base64: string): Int16Array => {
+  const binaryString = atob(base64);
+  // Drop a trailing odd byte so the Int16Array view stays aligned
+  const len = binaryString.length - (binaryString.length % 2);
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return new Int16Array(bytes.buffer);
+};
+
+/**
+ * Encodes raw bytes as base64.
+ */
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  // Build the binary string in chunks; spreading a large array into fromCharCode overflows the stack
+  const chunkSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Encodes 16-bit PCM samples back into a base64 string.
+ */
+export const pcm16ToBase64 = (samples: Int16Array): string =>
+  bytesToBase64(new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength));
+
+/**
+ * Converts float samples in [-1, 1] to 16-bit PCM.
+ */
+export const floatToPcm16 = (samples: Float32Array): Int16Array => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const v = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = v < 0 ? v * 32768 : v * 32767;
+  }
+  return pcm;
+};
+
+/**
+ * Wraps 16-bit PCM in a RIFF/WAVE container.
+ */
+export const encodeWav = (samples: Int16Array, sampleRate: number, numChannels = 1): Uint8Array => {
+  const dataSize = samples.byteLength;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);                            // fmt chunk size
+  view.setUint16(20, 1, true);                             // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true);  // byte rate
+  view.setUint16(32, numChannels * 2, true);               // block align
+  view.setUint16(34, 16, true);                            // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  new Uint8Array(buffer, 44).set(new Uint8Array(samples.buffer, samples.byteOffset, dataSize));
+  return new Uint8Array(buffer);
+};
+
+/**
+ * Wraps base64 raw PCM (as produced by TTS and the dub assembler) in a playable WAV blob.
+ */
+export const pcmBase64ToWavBlob = (base64: string, sampleRate = TTS_SAMPLE_RATE): Blob =>
+  new Blob([encodeWav(base64ToPcm16(base64), sampleRate)], { type: 'audio/wav' });
@@ -0,0 +1,252 @@
+import { base64ToPcm16, encodeWav, floatToPcm16, pcm16ToBase64, TTS_SAMPLE_RATE } from "./audio";
+
+/**
+ * Format detection, normalisation and encoding for speech audio.
+ *
+ * Everything downstream of the TTS call (dub assembly, playback, export) works on raw
+ * 16-bit mono PCM at `TTS_SAMPLE_RATE`. Responses are normalised to that on arrival,
+ * whatever the model actually sent, and only re-encoded into a container on export.
+ */
+
+export type AudioFormatInfo =
+  | { kind: 'pcm'; sampleRate: number; channels: number }
+  | { kind: 'container'; mimeType: string };
+
+export type AudioExportFormat = 'wav' | 'compressed';
+
+export interface DecodedPcm {
+  samples: Int16Array;
+  sampleRate: number;
+}
+
+const PCM_MIME_TYPES = ['audio/l16', 'audio/pcm', 'audio/raw', 'audio/x-raw'];
+
+const COMPRESSED_CANDIDATES: { mimeType: string; extension: string }[] = [
+  { mimeType: 'audio/mpeg', extension: 'mp3' },
+  { mimeType: 'audio/ogg;codecs=opus', extension: 'ogg' },
+  { mimeType: 'audio/webm;codecs=opus', extension: 'webm' },
+  { mimeType: 'audio/mp4', extension: 'm4a' },
+];
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/**
+ * Reads a response MIME type such as `audio/L16;codec=pcm;rate=24000`.
+ * Unknown or missing types are reported as PCM at the TTS default, which is what
+ * the speech model returns when it omits the parameters.
+ */
+export const parseAudioMimeType = (mimeType: string | undefined): AudioFormatInfo => {
+  const [type = '', ...params] = (mimeType || '').split(';').map(part => part.trim().toLowerCase());
+  if (type && !PCM_MIME_TYPES.includes(type)) {
+    return { kind: 'container', mimeType: type };
+  }
+  const param = (name: string) => {
+    const match = params.find(p => p.startsWith(`${name}=`));
+    return match ? Number(match.slice(name.length + 1)) : NaN;
+  };
+  const rate = param('rate');
+  const channels = param('channels');
+  return {
+    kind: 'pcm',
+    sampleRate: Number.isFinite(rate) && rate > 0 ? rate : TTS_SAMPLE_RATE,
+    channels: Number.isFinite(channels) && channels > 0 ? channels : 1,
+  };
+};
+
+/**
+ * Recognises common audio containers by their magic bytes. Returns null for headerless data.
+ * Only unambiguous signatures are checked, so raw PCM is never mistaken for a container.
+ */
+export const sniffAudioContainer = (bytes: Uint8Array): string | null => {
+  const ascii = (offset: number, length: number) => String.fromCharCode(...bytes.subarray(offset, offset + length));
+  if (bytes.length < 12) return null;
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WAVE') return 'audio/wav';
+  if (ascii(0, 4) === 'OggS') return 'audio/ogg';
+  if (ascii(0, 4) === 'fLaC') return 'audio/flac';
+  // Bare MPEG frame sync is not checked: quiet PCM (0xffff) would look like one
+  if (ascii(0, 3) === 'ID3') return 'audio/mpeg';
+  if (ascii(4, 4) === 'ftyp') return 'audio/mp4';
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'audio/webm';
+  return null;
+};
+
+/**
+ * Extracts 16-bit PCM from a WAV file, downmixing to mono. Returns null for other sample formats.
+ */
+export const decodeWav = (bytes: Uint8Array): DecodedPcm | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const id = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      const audioFormat = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      // 0xfffe is WAVE_FORMAT_EXTENSIBLE, which the TTS service uses for plain PCM too
+      if ((audioFormat !== 1 && audioFormat !== 0xfffe) || bitsPerSample !== 16) return null;
+    } else if (id === 'data') {
+      if (!channels || !sampleRate) return null;
+      // Streamed WAVs may leave the data size at 0 or 0xffffffff; read to the end instead
+      const end = size && body + size <= bytes.length ? body + size : bytes.length;
+      const frames = Math.floor((end - body) / (2 * channels));
+      const samples = new Int16Array(frames);
+      for (let i = 0; i < frames; i++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++) sum += view.getInt16(body + (i * channels + c) * 2, true);
+        samples[i] = Math.round(sum / channels);
+      }
+      return { samples, sampleRate };
+    }
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+  return null;
+};
+
+/**
+ * Linear-interpolation resampler; plenty for speech.
+ */
+export const resamplePcm16 = (samples: Int16Array, fromRate: number, toRate: number): Int16Array => {
+  if (fromRate === toRate || samples.length === 0) return samples;
+  const ratio = fromRate / toRate;
+  const out = new Int16Array(Math.max(1, Math.round(samples.length / ratio)));
+  for (let i = 0; i < out.length; i++) {
+    const pos = i * ratio;
+    const i0 = Math.min(samples.length - 1, Math.floor(pos));
+    const i1 = Math.min(samples.length - 1, i0 + 1);
+    out[i] = Math.round(samples[i0] + (samples[i1] - samples[i0]) * (pos - i0));
+  }
+  return out;
+};
+
+const downmixInterleaved = (samples: Int16Array, channels: number): Int16Array => {
+  if (channels <= 1) return samples;
+  const frames = Math.floor(samples.length / channels);
+  const out = new Int16Array(frames);
+  for (let i = 0; i < frames; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) sum += samples[i * channels + c];
+    out[i] = Math.round(sum / channels);
+  }
+  return out;
+};
+
+const decodeCompressed = async (bytes: Uint8Array, sampleRate: number): Promise<Int16Array> => {
+  if (typeof OfflineAudioContext === 'undefined') {
+    throw new Error("Compressed audio can only be decoded in a browser");
+  }
+  // decodeAudioData resamples to the context rate, so no separate resampling is needed
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await context.decodeAudioData(bytes.slice().buffer);
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return floatToPcm16(mono);
+};
+
+/**
+ * Turns TTS output in any supported format into base64 16-bit mono PCM at `TTS_SAMPLE_RATE`.
+ * The MIME type from the response wins; headers in the data are checked as a fallback
+ * because the reported type is not always accurate.
+ */
+export const normalizeSpeechAudio = async (base64: string, mimeType?: string): Promise<string> => {
+  const format = parseAudioMimeType(mimeType);
+  const bytes = base64ToBytes(base64);
+
+  const container = format.kind === 'container' ? format.mimeType : sniffAudioContainer(bytes);
+  if (!container) {
+    const pcm = format.kind === 'pcm' ? format : { sampleRate: TTS_SAMPLE_RATE, channels: 1 };
+    if (pcm.sampleRate === TTS_SAMPLE_RATE && pcm.channels === 1) return base64;
+    const mono = downmixInterleaved(base64ToPcm16(base64), pcm.channels);
+    return pcm16ToBase64(resamplePcm16(mono, pcm.sampleRate, TTS_SAMPLE_RATE));
+  }
+
+  if (container === 'audio/wav' || container === 'audio/x-wav' || container === 'audio/wave') {
+    const wav = decodeWav(bytes);
+    if (wav) return pcm16ToBase64(resamplePcm16(wav.samples, wav.sampleRate, TTS_SAMPLE_RATE));
+  }
+  return pcm16ToBase64(await decodeCompressed(bytes, TTS_SAMPLE_RATE));
+};
+
+/**
+ * Decodes audio that may or may not carry a WAV header (e.g. older saved clips).
+ */
+export const readPcm = (base64: string, sampleRate = TTS_SAMPLE_RATE): DecodedPcm => {
+  const head = atob(base64.slice(0, 16));
+  if (head.startsWith('RIFF')) {
+    const wav = decodeWav(base64ToBytes(base64));
+    if (wav) return wav;
+  }
+  return { samples: base64ToPcm16(base64), sampleRate };
+};
+
+/**
+ * The compressed format the browser can encode, preferring MP3 where available.
+ */
+export const pickCompressedAudioType = (): { mimeType: string; extension: string } | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return COMPRESSED_CANDIDATES.find(c => MediaRecorder.isTypeSupported(c.mimeType)) ?? null;
+};
+
+/**
+ * Encodes with MediaRecorder. The audio is played silently through the recorder,
+ * so this takes as long as the audio itself.
+ */
+const encodeCompressed = async (samples: Int16Array, sampleRate: number, mimeType: string): Promise<Blob> => {
+  const context = new AudioContext();
+  try {
+    const buffer = context.createBuffer(1, Math.max(1, samples.length), sampleRate);
+    const channel = buffer.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) channel[i] = samples[i] / 32768;
+
+    const destination = context.createMediaStreamDestination();
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(destination);
+
+    const recorder = new MediaRecorder(destination.stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    if (context.state === 'suspended') await context.resume();
+    recorder.start();
+    source.onended = () => recorder.stop();
+    source.start();
+    await stopped;
+    return new Blob(chunks, { type: mimeType });
+  } finally {
+    context.close();
+  }
+};
+
+/**
+ * Encodes base64 PCM for download as WAV, or the best compressed format the browser offers.
+ */
+export const encodeAudio = async (
+  base64: string,
+  format: AudioExportFormat,
+  sampleRate = TTS_SAMPLE_RATE
+): Promise<{ blob: Blob; extension: string }> => {
+  const pcm = readPcm(base64, sampleRate);
+  const compressed = format === 'compressed' ? pickCompressedAudioType() : null;
+  if (!compressed) {
+    return { blob: new Blob([encodeWav(pcm.samples, pcm.sampleRate)], { type: 'audio/wav' }), extension: 'wav' };
+  }
+  return { blob: await encodeCompressed(pcm.samples, pcm.sampleRate, compressed.mimeType), extension: compressed.extension };
+};
@@ -0,0 +1,147 @@
+import { AnalysisResult, GlossaryEntry, LanguageOption, Segment, TranslationStatus } from "../types";
+import { TranslationProvider } from "./providers";
+import { transcribeMediaFile } from "./media";
+import { assembleDubTrack, DubTrack, synthesizeSegmentClips } from "./dubbing";
+import { describeError, isCancellation, TranslatorError } from "./request";
+import { assignVoices, voiceForSegment } from "./speakers";
+import { glossaryForLanguage } from "./glossary";
+import { translateTranscript } from "./pipeline";
+
+/**
+ * One (video, target language) pair in the batch queue. `IDLE` means queued.
+ */
+export interface BatchJob {
+  id: string;
+  file: File;
+  language: LanguageOption;
+  status: TranslationStatus;
+  message?: string;
+  result?: AnalysisResult;
+  dub?: DubTrack;
+  error?: string;
+}
+
+/**
+ * Source transcripts shared between jobs, keyed per file. The first job for a file runs the
+ * expensive transcription; every language for it then only translates the text.
+ */
+export type TranscriptionCache = Map<File, Promise<AnalysisResult>>;
+
+export const createTranscriptionCache = (): TranscriptionCache => new Map();
+
+export const createBatchJobs = (files: File[], languages: LanguageOption[]): BatchJob[] =>
+  files.flatMap((file, fileIndex) =>
+    languages.map(language => ({
+      id: `${fileIndex}-${file.name}-${file.size}-${language.code}`,
+      file,
+      language,
+      status: TranslationStatus.IDLE,
+    }))
+  );
+
+/**
+ * Runs `worker` over `items` with at most `limit` in flight.
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> => {
+  let next = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await worker(item);
+    }
+  });
+  await Promise.all(lanes);
+};
+
+export interface BatchRunOptions {
+  provider: TranslationProvider;
+  concurrency: number;
+  generateDub: boolean;
+  cache: TranscriptionCache;
+  /** Language spoken in every file; detected per file when omitted. */
+  sourceLanguage?: string;
+  /** Every glossary entry; each job uses those for its language. */
+  glossary?: GlossaryEntry[];
+  signal?: AbortSignal;
+  onUpdate: (id: string, patch: Partial<BatchJob>) => void;
+}
+
+const transcribe = (job: BatchJob, options: BatchRunOptions): Promise<AnalysisResult> => {
+  const { cache, provider, sourceLanguage, signal, onUpdate } = options;
+  const cached = cache.get(job.file);
+  if (cached) return cached;
+
+  const pending = transcribeMediaFile(job.file, provider, {
+    signal,
+    sourceLanguage,
+    onStage: (stage) => onUpdate(job.id, stage === 'reading'
+      ? { status: TranslationStatus.UPLOADING, message: 'Reading file...' }
+      : { status: TranslationStatus.TRANSCRIBING, message: 'Transcribing...' }),
+  });
+
+  cache.set(job.file, pending);
+  // Drop failures so a retry transcribes the file again
+  pending.catch(() => cache.delete(job.file));
+  return pending;
+};
+
+const runJob = async (job: BatchJob, options: BatchRunOptions) => {
+  const { provider, sourceLanguage, glossary = [], signal, onUpdate } = options;
+  try {
+    if (signal?.aborted) throw new TranslatorError('cancelled');
+    onUpdate(job.id, { status: TranslationStatus.TRANSCRIBING, message: 'Waiting for transcript...', error: undefined });
+
+    const source = await transcribe(job, options);
+    if (source.segments.length === 0) {
+      throw new Error("No speech detected in this video to translate.");
+    }
+
+    onUpdate(job.id, { status: TranslationStatus.TRANSLATING, message: 'Translating...' });
+    let result = await translateTranscript(source.segments, job.language.name, provider, {
+      signal,
+      sourceLanguage,
+      glossary: glossaryForLanguage(glossary, job.language.code),
+      base: source,
+      onProgress: (done, total) => onUpdate(job.id, { message: `Translating ${done}/${total}...` }),
+    });
+    if (result.speakers) {
+      result = { ...result, speakers: assignVoices(result.speakers, job.language.voiceName) };
+    }
+    onUpdate(job.id, { result });
+
+    let dub: DubTrack | undefined;
+    if (options.generateDub) {
+      const speakers = result.speakers;
+      const voiceFor = (segment: Segment) => voiceForSegment(segment, speakers, job.language.voiceName);
+      const clips = await synthesizeSegmentClips(result.segments, provider.synthesize, voiceFor, {
+        signal,
+        onProgress: (done, total) => onUpdate(job.id, {
+          status: TranslationStatus.GENERATING_SPEECH,
+          message: `Voicing ${Math.min(done + 1, total)}/${total}...`,
+        }),
+      });
+      dub = assembleDubTrack(result.segments, clips);
+    }
+
+    onUpdate(job.id, { status: TranslationStatus.COMPLETED, message: undefined, dub });
+  } catch (error) {
+    if (isCancellation(error)) {
+      onUpdate(job.id, { status: TranslationStatus.IDLE, message: 'Cancelled' });
+      return;
+    }
+    console.error(`Batch job ${job.id} failed:`, error);
+    onUpdate(job.id, { status: TranslationStatus.ERROR, message: undefined, error: describeError(error) });
+  }
+};
+
+/**
+ * Runs the given jobs with bounded concurrency. Failures are recorded on the job
+ * rather than thrown, so one bad file does not stop the rest of the queue.
+ */
+export const runBatch = async (jobs: BatchJob[], options: BatchRunOptions): Promise<void> => {
+  await runWithConcurrency(jobs, options.concurrency, job => runJob(job, options));
+};
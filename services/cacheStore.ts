@@ -0,0 +1,113 @@
+import { CacheEntryInfo, CacheLayer, CacheStore, evictToSize } from "./resultCache";
+
+/**
+ * Browser `CacheStore` in IndexedDB. Entry metadata and values are kept in separate object
+ * stores, so listing the cache for the inspector never loads cached audio.
+ *
+ * Kept in its own database so clearing the cache can never touch saved projects.
+ */
+
+const DB_NAME = 'gemini-video-translator-cache';
+const DB_VERSION = 1;
+const ENTRIES = 'entries';
+const VALUES = 'values';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRIES)) {
+          db.createObjectStore(ENTRIES, { keyPath: 'key' }).createIndex('layer', 'layer');
+        }
+        if (!db.objectStoreNames.contains(VALUES)) {
+          db.createObjectStore(VALUES);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * @param maxBytes Read on every write, so the limit can change while the store is in use.
+ *   Least recently used entries are evicted once the cache grows past it.
+ */
+export const createIndexedDbCacheStore = (maxBytes: () => number): CacheStore => {
+  const store: CacheStore = {
+    get: async <T>(key: string) => {
+      const db = await openDb();
+      const tx = db.transaction([ENTRIES, VALUES], 'readwrite');
+      const [entry, value] = await Promise.all([
+        promisify<CacheEntryInfo | undefined>(tx.objectStore(ENTRIES).get(key)),
+        promisify<T | undefined>(tx.objectStore(VALUES).get(key)),
+      ]);
+      if (!entry || value === undefined) return undefined;
+      tx.objectStore(ENTRIES).put({ ...entry, lastUsedAt: Date.now() });
+      await transactionDone(tx);
+      return value;
+    },
+
+    set: async (entry, value) => {
+      const db = await openDb();
+      const now = Date.now();
+      const size = typeof value === 'string' ? value.length : JSON.stringify(value).length;
+      const tx = db.transaction([ENTRIES, VALUES], 'readwrite');
+      tx.objectStore(ENTRIES).put({ ...entry, size, createdAt: now, lastUsedAt: now } satisfies CacheEntryInfo);
+      tx.objectStore(VALUES).put(value, entry.key);
+      await transactionDone(tx);
+      await evictToSize(store, maxBytes());
+    },
+
+    list: async () => {
+      const db = await openDb();
+      return promisify<CacheEntryInfo[]>(db.transaction(ENTRIES).objectStore(ENTRIES).getAll());
+    },
+
+    delete: async (keys) => {
+      const db = await openDb();
+      const tx = db.transaction([ENTRIES, VALUES], 'readwrite');
+      for (const key of keys) {
+        tx.objectStore(ENTRIES).delete(key);
+        tx.objectStore(VALUES).delete(key);
+      }
+      await transactionDone(tx);
+    },
+
+    clear: async (layer?: CacheLayer) => {
+      if (layer) {
+        const db = await openDb();
+        const keys = await promisify(db.transaction(ENTRIES).objectStore(ENTRIES).index('layer').getAllKeys(layer));
+        await store.delete(keys as string[]);
+        return;
+      }
+      const db = await openDb();
+      const tx = db.transaction([ENTRIES, VALUES], 'readwrite');
+      tx.objectStore(ENTRIES).clear();
+      tx.objectStore(VALUES).clear();
+      await transactionDone(tx);
+    },
+  };
+  return store;
+};
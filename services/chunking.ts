@@ -0,0 +1,232 @@
+import { AnalysisResult, Segment } from "../types";
+import { bytesToBase64, encodeWav, floatToPcm16 } from "./audio";
+import { formatTimestamp, parseTimestamp } from "./timecode";
+import { validateAnalysisResult } from "./validation";
+import { TranslatorError } from "./request";
+import type { TranscribeOptions } from "./providers/types";
+
+/**
+ * Sample rate used for the extracted speech track; plenty for transcription and
+ * keeps a 5 minute window around 10MB of WAV.
+ */
+export const CHUNK_SAMPLE_RATE = 16000;
+
+export interface ChunkWindow {
+  index: number;
+  start: number; // seconds into the source media
+  end: number;
+}
+
+export type ChunkState = 'pending' | 'transcribing' | 'done' | 'error';
+
+export interface ChunkProgress {
+  window: ChunkWindow;
+  state: ChunkState;
+  segmentCount: number;
+}
+
+export type MediaTranscriber = (
+  base64Media: string,
+  mimeType: string,
+  options?: TranscribeOptions
+) => Promise<AnalysisResult>;
+
+/** `TranscribeOptions` are passed on to every window. */
+export interface ChunkedTranscriptionOptions extends TranscribeOptions {
+  windowSeconds?: number;
+  overlapSeconds?: number;
+  onProgress?: (chunks: ChunkProgress[]) => void;
+}
+
+const DEFAULT_WINDOW_SECONDS = 300;
+const DEFAULT_OVERLAP_SECONDS = 10;
+
+/**
+ * Decodes the media's audio track in the browser and downmixes it to mono at `CHUNK_SAMPLE_RATE`,
+ * so only speech (not video frames) has to be sent for transcription.
+ */
+export const extractAudioTrack = async (media: Blob): Promise<Float32Array> => {
+  const encoded = await media.arrayBuffer();
+
+  const decodeContext = new OfflineAudioContext(1, 1, CHUNK_SAMPLE_RATE);
+  const decoded = await decodeContext.decodeAudioData(encoded);
+
+  // Render through an offline graph to resample and downmix in one pass
+  const length = Math.ceil(decoded.duration * CHUNK_SAMPLE_RATE);
+  const renderContext = new OfflineAudioContext(1, length, CHUNK_SAMPLE_RATE);
+  const source = renderContext.createBufferSource();
+  source.buffer = decoded;
+  source.connect(renderContext.destination);
+  source.start();
+  const rendered = await renderContext.startRendering();
+
+  return rendered.getChannelData(0);
+};
+
+/**
+ * Splits `duration` into overlapping windows. The overlap gives the model context at the
+ * cut, and the duplicated lines are removed again by `stitchSegments`.
+ */
+export const planWindows = (
+  duration: number,
+  windowSeconds = DEFAULT_WINDOW_SECONDS,
+  overlapSeconds = DEFAULT_OVERLAP_SECONDS
+): ChunkWindow[] => {
+  const windows: ChunkWindow[] = [];
+  const step = Math.max(1, windowSeconds - overlapSeconds);
+  for (let start = 0; start < duration; start += step) {
+    const end = Math.min(duration, start + windowSeconds);
+    windows.push({ index: windows.length, start, end });
+    if (end >= duration) break;
+  }
+  return windows;
+};
+
+/**
+ * Shifts segment timestamps from window-relative to source-relative.
+ */
+export const offsetSegments = (segments: Segment[], offset: number): Segment[] =>
+  segments.map(segment => ({
+    ...segment,
+    start: formatTimestamp(parseTimestamp(segment.start) + offset, true),
+    end: formatTimestamp(parseTimestamp(segment.end) + offset, true),
+  }));
+
+const normalizeForCompare = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+/**
+ * Rough similarity of two lines in [0, 1], based on shared character bigrams.
+ */
+const similarity = (a: string, b: string): number => {
+  const x = normalizeForCompare(a);
+  const y = normalizeForCompare(b);
+  if (!x || !y) return 0;
+  if (x === y || x.includes(y) || y.includes(x)) return 1;
+
+  const bigrams = (s: string) => {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < s.length - 1; i++) {
+      const gram = s.slice(i, i + 2);
+      counts.set(gram, (counts.get(gram) || 0) + 1);
+    }
+    return counts;
+  };
+  const gx = bigrams(x);
+  const gy = bigrams(y);
+  let shared = 0;
+  gx.forEach((count, gram) => { shared += Math.min(count, gy.get(gram) || 0); });
+  return (2 * shared) / Math.max(1, x.length - 1 + y.length - 1);
+};
+
+/**
+ * Joins per-window segments (already offset to source time). Inside each overlap the cut is
+ * placed at its midpoint; a line repeated on both sides of the cut is kept only once. Only
+ * lines near a cut are compared, so short repeated lines within a window ("Yes.") are kept.
+ */
+export const stitchSegments = (
+  chunks: { window: ChunkWindow; segments: Segment[] }[],
+  overlapSeconds = DEFAULT_OVERLAP_SECONDS
+): Segment[] => {
+  const stitched: Segment[] = [];
+  let keptFromPrevious: Segment[] = [];
+
+  chunks.forEach(({ window, segments }, i) => {
+    const prev = chunks[i - 1]?.window;
+    const next = chunks[i + 1]?.window;
+    const cutBefore = prev ? (window.start + prev.end) / 2 : -Infinity;
+    const cutAfter = next ? (next.start + window.end) / 2 : Infinity;
+    // The previous window's lines that could reappear just after the cut
+    const nearCut = keptFromPrevious.filter(segment => parseTimestamp(segment.start) >= cutBefore - overlapSeconds);
+
+    const kept: Segment[] = [];
+    for (const segment of segments) {
+      const start = parseTimestamp(segment.start);
+      if (!Number.isFinite(start) || start < cutBefore || start >= cutAfter) continue;
+
+      const isDuplicate = start < cutBefore + overlapSeconds && nearCut.some(other =>
+        Math.abs(parseTimestamp(other.start) - start) < overlapSeconds
+        && similarity(other.original, segment.original) > 0.8
+      );
+      if (!isDuplicate) kept.push(segment);
+    }
+    stitched.push(...kept);
+    keptFromPrevious = kept;
+  });
+
+  return stitched.sort((a, b) => parseTimestamp(a.start) - parseTimestamp(b.start));
+};
+
+const mostCommon = (values: string[]): string => {
+  const counts = new Map<string, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? '';
+};
+
+/**
+ * Transcribes media too large to inline by extracting its audio, splitting it into windows,
+ * transcribing each window on its own and stitching the results back together.
+ */
+export const transcribeLongMedia = async (
+  media: Blob,
+  transcribe: MediaTranscriber,
+  options: ChunkedTranscriptionOptions = {}
+): Promise<AnalysisResult> => {
+  const { windowSeconds, overlapSeconds, onProgress, onSegments, ...request } = options;
+  const samples = await extractAudioTrack(media);
+  const duration = samples.length / CHUNK_SAMPLE_RATE;
+  const windows = planWindows(duration, windowSeconds, overlapSeconds);
+
+  const progress: ChunkProgress[] = windows.map(window => ({ window, state: 'pending', segmentCount: 0 }));
+  const report = (index: number, update: Partial<ChunkProgress>) => {
+    progress[index] = { ...progress[index], ...update };
+    onProgress?.([...progress]);
+  };
+  onProgress?.([...progress]);
+
+  const results: { window: ChunkWindow; result: AnalysisResult }[] = [];
+  const stitched = () => stitchSegments(
+    results.map(({ window, result }) => ({ window, segments: offsetSegments(result.segments || [], window.start) })),
+    overlapSeconds
+  );
+  // Streamed lines of the current window follow those already stitched, in source time,
+  // leaving out the overlap the previous window already covered
+  let doneSegments: Segment[] = [];
+  for (const window of windows) {
+    if (options.signal?.aborted) throw new TranslatorError('cancelled');
+    report(window.index, { state: 'transcribing' });
+    const slice = samples.subarray(
+      Math.floor(window.start * CHUNK_SAMPLE_RATE),
+      Math.ceil(window.end * CHUNK_SAMPLE_RATE)
+    );
+    const wav = bytesToBase64(encodeWav(floatToPcm16(slice), CHUNK_SAMPLE_RATE));
+
+    try {
+      const doneUntil = doneSegments.length ? parseTimestamp(doneSegments[doneSegments.length - 1].end) : 0;
+      const result = await transcribe(wav, 'audio/wav', {
+        ...request,
+        onSegments: onSegments && (partial => onSegments([
+          ...doneSegments,
+          ...offsetSegments(partial, window.start).filter(segment => parseTimestamp(segment.start) >= doneUntil),
+        ])),
+      });
+      results.push({ window, result });
+      doneSegments = stitched();
+      report(window.index, { state: 'done', segmentCount: result.segments?.length ?? 0 });
+    } catch (error) {
+      report(window.index, { state: 'error' });
+      throw error;
+    }
+  }
+
+  const withSpeech = results.filter(r => r.result.segments?.length);
+
+  // Re-validate the stitched timeline: windows can disagree slightly at the cuts
+  return validateAnalysisResult({
+    detectedLanguage: mostCommon(withSpeech.map(r => r.result.detectedLanguage)),
+    summary: withSpeech[0]?.result.summary ?? '',
+    segments: doneSegments,
+    // Each window labels speakers on its own, so ids are only matched by label; the
+    // first description of an id wins and mismatches can be fixed in the transcript
+    speakers: withSpeech.flatMap(r => r.result.speakers ?? []),
+  }, { sourceOnly: true });
+};
@@ -0,0 +1,26 @@
+/**
+ * Triggers a browser download for the given blob.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick so the download has a chance to start
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (content: string, filename: string, mimeType = 'text/plain') => {
+  downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), filename);
+};
+
+/**
+ * Strips the extension and anything unsafe from a file name so it can be reused as a prefix.
+ */
+export const baseFilename = (name: string | undefined, fallback = 'translation') => {
+  const base = (name || '').replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_');
+  return base || fallback;
+};
@@ -0,0 +1,241 @@
+import { Segment, SpeechStyle } from "../types";
+import { parseTimestamp } from "./timecode";
+import { TTS_SAMPLE_RATE, base64ToPcm16, floatToPcm16, pcm16ToBase64 } from "./audio";
+import { RequestOptions, TranslatorError } from "./request";
+import { describeSpeechStyle } from "./voices";
+
+export interface SpeechOptions extends RequestOptions {
+  style?: SpeechStyle;
+}
+
+/**
+ * Synthesizes one line of text and resolves to base64 PCM (see `generateSpeech`).
+ */
+export type SpeechSynthesizer = (text: string, voiceName: string, options?: SpeechOptions) => Promise<string>;
+
+/**
+ * Synthesized speech for one segment, with the text it was generated from so stale clips can be spotted after edits.
+ */
+export interface SegmentClip {
+  text: string;
+  voiceName: string;
+  /** Delivery instruction the clip was spoken with (see `describeSpeechStyle`); absent when none. */
+  style?: string;
+  audioBase64: string;
+}
+
+export type SegmentFit = 'fit' | 'stretched' | 'trimmed' | 'skipped';
+
+/**
+ * How a single segment's speech was placed on the dub timeline.
+ */
+export interface SegmentDubReport {
+  index: number;
+  slotStart: number;      // seconds
+  slotDuration: number;   // seconds the segment occupies in the source video
+  speechDuration: number; // seconds of synthesized speech before fitting
+  stretchRatio: number;   // > 1 means the speech was sped up
+  overflow: number;       // seconds the speech exceeds its slot (0 when it fits)
+  fit: SegmentFit;
+}
+
+export interface DubTrack {
+  audioBase64: string; // raw 16-bit mono PCM at `sampleRate`
+  sampleRate: number;
+  duration: number;
+  reports: SegmentDubReport[];
+}
+
+export interface DubbingOptions {
+  /** Maximum speed-up applied before the remainder is trimmed. */
+  maxStretch?: number;
+  /** Let speech run into the silence before the next segment instead of stopping at `end`. */
+  borrowGaps?: boolean;
+  sampleRate?: number;
+}
+
+const DEFAULT_MAX_STRETCH = 1.35;
+const FADE_OUT_SECONDS = 0.015;
+
+/**
+ * One voice for every line, or a per-line choice (e.g. by speaker).
+ */
+export type VoiceSelector = string | ((segment: Segment) => string);
+
+/**
+ * Synthesizes every segment's translation separately so each can be placed at its own timestamp.
+ * Multi-speaker TTS is deliberately not used: it returns one clip for a whole conversation
+ * with no timings, so the lines could not be aligned. Distinct voices come from `voice` instead.
+ * Segments with no translated text get a `null` clip.
+ */
+export const synthesizeSegmentClips = async (
+  segments: Segment[],
+  synthesize: SpeechSynthesizer,
+  voice: VoiceSelector,
+  { onProgress, signal, style }: { onProgress?: (done: number, total: number) => void; signal?: AbortSignal; style?: SpeechStyle } = {}
+): Promise<(SegmentClip | null)[]> => {
+  const clips: (SegmentClip | null)[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    if (signal?.aborted) throw new TranslatorError('cancelled');
+    onProgress?.(i, segments.length);
+    // Sequential on purpose: the TTS endpoint rate-limits aggressively on bursts
+    const voiceName = typeof voice === 'string' ? voice : voice(segments[i]);
+    clips.push(await synthesizeSegmentClip(segments[i], synthesize, voiceName, { signal, style }));
+  }
+  onProgress?.(segments.length, segments.length);
+  return clips;
+};
+
+/**
+ * Synthesizes a single segment, e.g. to re-voice it after its translation was edited.
+ */
+export const synthesizeSegmentClip = async (
+  segment: Segment,
+  synthesize: SpeechSynthesizer,
+  voiceName: string,
+  options: SpeechOptions = {}
+): Promise<SegmentClip | null> => {
+  const text = segment.translated?.trim();
+  if (!text) return null;
+  const audioBase64 = await synthesize(text, voiceName, options);
+  const style = describeSpeechStyle(options.style);
+  return { text, voiceName, ...(style ? { style } : {}), audioBase64 };
+};
+
+/**
+ * True when the clip no longer matches the segment's translated text or, when
+ * `expected` is given, was spoken in another voice or style.
+ */
+export const isClipStale = (
+  segment: Segment,
+  clip: SegmentClip | null | undefined,
+  expected?: { voiceName?: string; style?: SpeechStyle }
+): boolean => {
+  if ((clip?.text ?? '') !== (segment.translated?.trim() ?? '')) return true;
+  if (!clip || !expected) return false;
+  if (expected.voiceName && clip.voiceName !== expected.voiceName) return true;
+  return (clip.style ?? '') !== describeSpeechStyle(expected.style);
+};
+
+/**
+ * Time-compresses PCM by `ratio` with windowed overlap-add, keeping the pitch roughly intact
+ * (plain resampling would raise the voice along with the speed).
+ */
+const timeStretch = (input: Float32Array, ratio: number): Float32Array => {
+  if (ratio <= 1) return input;
+
+  const frameSize = 1024;
+  const synthesisHop = frameSize / 4;
+  const analysisHop = synthesisHop * ratio;
+  const outputLength = Math.ceil(input.length / ratio);
+  const output = new Float32Array(outputLength + frameSize);
+  const weights = new Float32Array(outputLength + frameSize);
+
+  const window = new Float32Array(frameSize);
+  for (let i = 0; i < frameSize; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frameSize - 1));
+  }
+
+  for (let frame = 0; ; frame++) {
+    const readPos = Math.round(frame * analysisHop);
+    const writePos = frame * synthesisHop;
+    if (readPos >= input.length || writePos >= outputLength) break;
+
+    for (let i = 0; i < frameSize && readPos + i < input.length; i++) {
+      output[writePos + i] += input[readPos + i] * window[i];
+      weights[writePos + i] += window[i];
+    }
+  }
+
+  const result = new Float32Array(outputLength);
+  for (let i = 0; i < outputLength; i++) {
+    result[i] = weights[i] > 1e-3 ? output[i] / weights[i] : 0;
+  }
+  return result;
+};
+
+const toFloat = (samples: Int16Array): Float32Array => {
+  const out = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) out[i] = samples[i] / 32768;
+  return out;
+};
+
+/**
+ * Lays the per-segment clips onto one PCM timeline. Each clip starts at its segment's `start`;
+ * clips longer than their slot are sped up (up to `maxStretch`) and then trimmed with a short fade.
+ */
+export const assembleDubTrack = (
+  segments: Segment[],
+  clips: (SegmentClip | null)[],
+  options: DubbingOptions = {}
+): DubTrack => {
+  const sampleRate = options.sampleRate ?? TTS_SAMPLE_RATE;
+  const maxStretch = options.maxStretch ?? DEFAULT_MAX_STRETCH;
+  const borrowGaps = options.borrowGaps ?? true;
+
+  const starts = segments.map(s => parseTimestamp(s.start));
+  const ends = segments.map(s => parseTimestamp(s.end));
+
+  const placed: { offset: number; samples: Float32Array }[] = [];
+  const reports: SegmentDubReport[] = segments.map((_, index) => {
+    const start = starts[index];
+    const end = ends[index];
+    const clip = clips[index];
+
+    if (!clip || !Number.isFinite(start)) {
+      return { index, slotStart: start || 0, slotDuration: 0, speechDuration: 0, stretchRatio: 1, overflow: 0, fit: 'skipped' as const };
+    }
+
+    const slotDuration = Number.isFinite(end) && end > start ? end - start : 0;
+    // The next segment's start is the hard limit; the silence before it is usable if allowed
+    const nextStart = starts.slice(index + 1).find(Number.isFinite);
+    let available = slotDuration;
+    if (borrowGaps) {
+      available = nextStart === undefined ? Infinity : Math.max(slotDuration, nextStart - start);
+    }
+
+    let samples = toFloat(base64ToPcm16(clip.audioBase64));
+    const speechDuration = samples.length / sampleRate;
+    const overflow = Math.max(0, speechDuration - slotDuration);
+
+    let stretchRatio = 1;
+    let fit: SegmentFit = 'fit';
+
+    if (speechDuration > available && available > 0) {
+      stretchRatio = Math.min(maxStretch, speechDuration / available);
+      samples = timeStretch(samples, stretchRatio);
+      fit = 'stretched';
+
+      const maxSamples = Math.floor(available * sampleRate);
+      if (samples.length > maxSamples) {
+        samples = samples.slice(0, maxSamples);
+        const fadeSamples = Math.min(samples.length, Math.floor(FADE_OUT_SECONDS * sampleRate));
+        for (let i = 0; i < fadeSamples; i++) {
+          samples[samples.length - 1 - i] *= i / fadeSamples;
+        }
+        fit = 'trimmed';
+      }
+    }
+
+    placed.push({ offset: Math.round(start * sampleRate), samples });
+    return { index, slotStart: start, slotDuration, speechDuration, stretchRatio, overflow, fit };
+  });
+
+  const lastEnd = Math.max(0, ...ends.filter(Number.isFinite));
+  const totalSamples = Math.max(
+    Math.ceil(lastEnd * sampleRate),
+    ...placed.map(p => p.offset + p.samples.length)
+  );
+
+  const mix = new Float32Array(totalSamples);
+  for (const { offset, samples } of placed) {
+    for (let i = 0; i < samples.length; i++) mix[offset + i] += samples[i];
+  }
+
+  return {
+    audioBase64: pcm16ToBase64(floatToPcm16(mix)),
+    sampleRate,
+    duration: totalSamples / sampleRate,
+    reports,
+  };
+};
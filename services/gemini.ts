@@ -1,50 +1,274 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
+import { FinishReason, GenerateContentParameters, GenerateContentResponse, Modality, Type } from "@google/genai";
 import { AnalysisResult, Segment } from "../types";
+import { AnalysisValidationError, validateAnalysisResult } from "./validation";
+import { RequestOptions, TranslatorError, withRetry } from "./request";
+import { pcmBase64ToWavBlob } from "./audio";
+import { normalizeSpeechAudio } from "./audioEncoding";
+import { SpeechOptions } from "./dubbing";
+import type { AnalyzeOptions, TranscribeOptions, TranslateOptions, TranslationContext } from "./providers/types";
+import { styledSpeechText } from "./voices";
+import { formatGlossaryPrompt } from "./glossary";
+import { describeTranslationStyle, lengthBudget } from "./translationStyle";
+import { usageFromMetadata } from "./usage";
+import { ProxyEndpoint, proxyGenerateContent, proxyGenerateContentStream } from "./proxyClient";
+import { completedArrayItems } from "./partialJson";
 
-// Initialize the client
-// NOTE: process.env.API_KEY is injected by the environment.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const ANALYSIS_MODEL = "gemini-2.5-flash";
+export const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+
+// Per-attempt timeouts; video analysis is by far the slowest call
+const ANALYSIS_TIMEOUT_MS = 5 * 60_000;
+const TEXT_TIMEOUT_MS = 2 * 60_000;
+const SPEECH_TIMEOUT_MS = 60_000;
+
+const BLOCKED_FINISH_REASONS = new Set<FinishReason>([
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+]);
+
+/**
+ * Calls `generateContent` on the API proxy's `endpoint` through the retry layer and turns blocked
+ * responses into a safety error, which would otherwise surface as a confusing empty response.
+ * Usage goes to `options.onUsage`. With `onText` the response is streamed, and `onText` gets
+ * the text so far after every chunk (starting over if an attempt is retried).
+ */
+const generate = async (
+  endpoint: ProxyEndpoint,
+  params: GenerateContentParameters,
+  timeoutMs: number,
+  options: RequestOptions = {},
+  onText?: (textSoFar: string) => void
+): Promise<GenerateContentResponse> => {
+  const response = await withRetry(
+    signal => onText
+      ? proxyGenerateContentStream(endpoint, params, onText, signal)
+      : proxyGenerateContent(endpoint, params, signal),
+    { timeoutMs, ...options }
+  );
+  // Reported before the safety check: blocked responses are billed too
+  options.onUsage?.(usageFromMetadata(params.model, response.usageMetadata));
+
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.has(finishReason))) {
+    throw new TranslatorError('safety', `Response blocked by safety filters (${blockReason || finishReason})`);
+  }
+  return response;
+};
+
+const TRANSCRIPT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    detectedLanguage: { type: Type.STRING },
+    summary: { type: Type.STRING },
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.STRING },
+          end: { type: Type.STRING },
+          original: { type: Type.STRING },
+          speaker: { type: Type.STRING },
+        },
+      },
+    },
+    speakers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          gender: { type: Type.STRING, enum: ["female", "male", "unknown"] },
+          age: { type: Type.STRING, enum: ["child", "young", "adult", "senior", "unknown"] },
+        },
+      },
+    },
+  },
+};
 
 /**
- * Analyzes the video to extract transcript and translate it.
+ * Asks the model to fix a payload that failed validation. This is text-only,
+ * so it is much cheaper than re-sending the video.
  */
-export const analyzeAndTranslateVideo = async (
-  base64Video: string,
+const repairTranscriptResponse = async (
+  brokenText: string,
+  issues: string[],
+  options: RequestOptions
+): Promise<AnalysisResult> => {
+  const prompt = `
+    The JSON below was supposed to describe a transcript, but it has these problems:
+    ${issues.map(issue => `- ${issue}`).join("\n")}
+    Fix it and return only the corrected JSON object with "detectedLanguage", "summary", "segments" and "speakers",
+    where every segment has "start" and "end" in "MM:SS" (or "HH:MM:SS") format, "original" and "speaker".
+    Keep all text content and speaker labels unchanged.
+
+    ${brokenText}
+  `;
+
+  const response = await generate("analyze", {
+    model: ANALYSIS_MODEL,
+    contents: { parts: [{ text: prompt }] },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: TRANSCRIPT_SCHEMA,
+    },
+  }, TEXT_TIMEOUT_MS, options);
+
+  const text = response.text;
+  if (!text) throw new Error("No response from Gemini");
+  return validateAnalysisResult(text, { sourceOnly: true });
+};
+
+// Lines finished so far in a streaming transcript, tidied the same way as the final result.
+// Anything unusable is left for the final validation (and repair) to deal with.
+const reportTranscribedSegments = (partialText: string, onSegments: (segments: Segment[]) => void) => {
+  const segments = completedArrayItems<Segment>(partialText, "segments");
+  if (!segments.length) return;
+  try {
+    onSegments(validateAnalysisResult({ detectedLanguage: "", summary: "", segments }, { sourceOnly: true }).segments);
+  } catch {
+    // Not usable yet
+  }
+};
+
+// Prompt step for the source language: detected by default, or fixed by the user when
+// detection fails (accented or code-switched speech)
+const sourceLanguageStep = (subject: string, sourceLanguage: string | undefined, task: string) =>
+  sourceLanguage
+    ? `${subject} is in ${sourceLanguage}. Do not detect the language; ${task} it as ${sourceLanguage}, including any words borrowed from other languages, and report "${sourceLanguage}" as the detected language.`
+    : `Detect the language of ${subject.toLowerCase()}.`;
+
+/**
+ * Transcribes the speech in a video or audio file, without translating it. Segments are
+ * returned with an empty `translated`.
+ */
+export const transcribeMedia = async (
+  base64Media: string,
   mimeType: string,
-  targetLanguage: string
+  options: TranscribeOptions = {}
 ): Promise<AnalysisResult> => {
-  const model = "gemini-2.5-flash"; // Good for video analysis
+  const model = ANALYSIS_MODEL; // Good for video analysis
 
   const prompt = `
-    Analyze the audio in this video file.
-    1. Detect the spoken language.
+    Analyze the audio in this media file.
+    1. ${sourceLanguageStep("The speech", options.sourceLanguage, "transcribe")}
     2. Provide a short 1-sentence summary of the content.
-    3. Transcribe the speech and translate it to ${targetLanguage}.
-    4. Return the result strictly as a JSON object with the following structure:
+    3. Transcribe the speech word for word in the language it is spoken in. Do not translate it.
+    4. Identify who is speaking. Label distinct speakers "S1", "S2", ... in order of first appearance,
+       use the same label for the same person throughout, and start a new segment when the speaker changes.
+       For each speaker, estimate their gender and age group from the voice ("unknown" if unsure).
+    5. Return the result strictly as a JSON object with the following structure:
     {
       "detectedLanguage": "Name of language detected",
-      "summary": "Summary of video",
+      "summary": "Summary of media",
       "segments": [
-        { "start": "MM:SS", "end": "MM:SS", "original": "Original text transcript", "translated": "Translated text" }
+        { "start": "MM:SS", "end": "MM:SS", "original": "Transcribed text", "speaker": "S1" }
+      ],
+      "speakers": [
+        { "id": "S1", "gender": "female", "age": "adult" }
       ]
     }
     Ensure the segments cover the entire spoken duration.
   `;
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await generate("analyze", {
       model: model,
       contents: {
         parts: [
           {
             inlineData: {
               mimeType: mimeType,
-              data: base64Video,
+              data: base64Media,
             },
           },
           { text: prompt },
         ],
       },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: TRANSCRIPT_SCHEMA,
+      },
+    }, ANALYSIS_TIMEOUT_MS, options, options.onSegments && (partial => reportTranscribedSegments(partial, options.onSegments!)));
+
+    const text = response.text;
+    if (!text) throw new Error("No response from Gemini");
+    
+    // Parse and normalize the JSON, asking the model once to repair it if it is unusable
+    try {
+      return validateAnalysisResult(text, { sourceOnly: true });
+    } catch (validationError) {
+      if (!(validationError instanceof AnalysisValidationError)) throw validationError;
+      console.warn("Transcript response failed validation, requesting repair:", validationError.issues);
+      return await repairTranscriptResponse(text, validationError.issues, options);
+    }
+
+  } catch (error) {
+    console.error("Error transcribing media:", error);
+    throw error;
+  }
+};
+
+// Lines around a batch of a longer transcript; the model sees them but must not translate them
+const formatContext = (context: TranslationContext | undefined) => {
+  const before = context?.before ?? [];
+  const after = context?.after ?? [];
+  if (!before.length && !after.length) return "";
+  return `
+    These lines are part of a longer transcript. For context only, and not to be translated:
+    ${before.length ? `Lines just before: ${JSON.stringify(before)}` : ""}
+    ${after.length ? `Lines just after: ${JSON.stringify(after)}` : ""}
+  `;
+};
+
+/**
+ * Translates already-transcribed segments (a transcript or imported captions) without sending
+ * any media. Timestamps and source text are kept as-is; only `translated` is filled in.
+ */
+export const translateSegments = async (
+  segments: Segment[],
+  targetLanguage: string,
+  options: TranslateOptions = {}
+): Promise<AnalysisResult> => {
+  const model = ANALYSIS_MODEL;
+
+  // With a length budget each line carries its own limit, since durations differ
+  const maxCharsPerSecond = options.translationStyle?.maxCharsPerSecond;
+  const lines = segments.map((segment, index) => ({
+    index,
+    text: segment.original,
+    ...(maxCharsPerSecond ? { maxChars: lengthBudget(segment, maxCharsPerSecond).maxChars } : {}),
+  }));
+
+  const prompt = `
+    The following JSON array contains the numbered lines of a video's captions, in order.
+    1. ${sourceLanguageStep("The text of the lines", options.sourceLanguage, "read")}
+    2. Provide a short 1-sentence summary of the content.
+    3. Translate every line to ${targetLanguage}, using the surrounding lines as context.
+    4. Return the result strictly as a JSON object with the following structure:
+    {
+      "detectedLanguage": "Name of language detected",
+      "summary": "Summary of video",
+      "translations": [
+        { "index": 0, "translated": "Translated text" }
+      ]
+    }
+    Return exactly one translation per input line and keep each "index" unchanged.${maxCharsPerSecond ? ' Keep each translation within its line\'s "maxChars".' : ""}
+    ${describeTranslationStyle(options.translationStyle)}
+    ${formatGlossaryPrompt(options.glossary ?? [])}
+    ${formatContext(options.context)}
+
+    Lines:
+    ${JSON.stringify(lines)}
+  `;
+
+  try {
+    const response = await generate("translate", {
+      model: model,
+      contents: { parts: [{ text: prompt }] },
       config: {
         responseMimeType: "application/json",
         responseSchema: {
@@ -52,14 +276,12 @@ export const analyzeAndTranslateVideo = async (
           properties: {
             detectedLanguage: { type: Type.STRING },
             summary: { type: Type.STRING },
-            segments: {
+            translations: {
               type: Type.ARRAY,
               items: {
                 type: Type.OBJECT,
                 properties: {
-                  start: { type: Type.STRING },
-                  end: { type: Type.STRING },
-                  original: { type: Type.STRING },
+                  index: { type: Type.INTEGER },
                   translated: { type: Type.STRING },
                 },
               },
@@ -67,35 +289,150 @@ export const analyzeAndTranslateVideo = async (
           },
         },
       },
+    }, TEXT_TIMEOUT_MS, options, options.onSegments && (partial => {
+      const done = new Map(completedArrayItems<{ index: number; translated: string }>(partial, "translations").map(t => [t.index, t.translated]));
+      if (done.size) options.onSegments!(segments.map((segment, index) => ({ ...segment, translated: done.get(index)?.trim() ?? "" })));
+    }));
+
+    const text = response.text;
+    if (!text) throw new Error("No response from Gemini");
+
+    const parsed: {
+      detectedLanguage: string;
+      summary: string;
+      translations: { index: number; translated: string }[];
+    } = JSON.parse(text);
+
+    const byIndex = new Map((parsed.translations || []).map(t => [t.index, t.translated]));
+    return validateAnalysisResult({
+      detectedLanguage: parsed.detectedLanguage,
+      summary: parsed.summary,
+      segments: segments.map((segment, index) => ({
+        ...segment,
+        translated: byIndex.get(index) ?? "",
+      })),
     });
+  } catch (error) {
+    console.error("Error translating segments:", error);
+    throw error;
+  }
+};
+
+/**
+ * Re-translates a single line, giving the neighbouring source lines as context.
+ */
+export const translateSegment = async (
+  original: string,
+  targetLanguage: string,
+  context: TranslationContext = {},
+  options: AnalyzeOptions = {}
+): Promise<string> => {
+  const model = ANALYSIS_MODEL;
+
+  const prompt = `
+    Translate the line marked TARGET to ${targetLanguage}.${options.sourceLanguage ? ` The lines are in ${options.sourceLanguage}.` : ""}
+    The surrounding lines are from the same video and are given only for context; do not translate them.
+    ${(context.before || []).map(line => `BEFORE: ${line}`).join("\n")}
+    TARGET: ${original}
+    ${(context.after || []).map(line => `AFTER: ${line}`).join("\n")}
+    ${describeTranslationStyle(options.translationStyle)}
+    ${formatGlossaryPrompt(options.glossary ?? [])}
+    Return the result strictly as a JSON object: { "translated": "Translated text" }
+  `;
+
+  try {
+    const response = await generate("translate", {
+      model: model,
+      contents: { parts: [{ text: prompt }] },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            translated: { type: Type.STRING },
+          },
+        },
+      },
+    }, TEXT_TIMEOUT_MS, options);
+
+    const text = response.text;
+    if (!text) throw new Error("No response from Gemini");
+
+    const parsed: { translated?: string } = JSON.parse(text);
+    if (!parsed.translated) throw new Error("Empty translation returned");
+    return parsed.translated;
+  } catch (error) {
+    console.error("Error translating segment:", error);
+    throw error;
+  }
+};
+
+/**
+ * Rewrites a translated line more concisely so it fits its time budget when dubbed.
+ */
+export const shortenTranslation = async (
+  original: string,
+  translated: string,
+  targetLanguage: string,
+  maxChars: number,
+  options: AnalyzeOptions = {}
+): Promise<string> => {
+  const model = ANALYSIS_MODEL;
+
+  const prompt = `
+    The ${targetLanguage} line below is a translation for dubbing, and it is too long to be spoken in time.
+    Rewrite it in ${targetLanguage} in at most ${maxChars} characters. Keep the meaning of the original line;
+    drop filler and redundancy first, and keep names and key terms.
+    ORIGINAL: ${original}
+    TRANSLATION (${translated.length} characters): ${translated}
+    ${describeTranslationStyle({ ...options.translationStyle, maxCharsPerSecond: undefined })}
+    ${formatGlossaryPrompt(options.glossary ?? [])}
+    Return the result strictly as a JSON object: { "translated": "Shortened translation" }
+  `;
+
+  try {
+    const response = await generate("translate", {
+      model: model,
+      contents: { parts: [{ text: prompt }] },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            translated: { type: Type.STRING },
+          },
+        },
+      },
+    }, TEXT_TIMEOUT_MS, options);
 
     const text = response.text;
     if (!text) throw new Error("No response from Gemini");
-    
-    // Parse the JSON
-    const result: AnalysisResult = JSON.parse(text);
-    return result;
 
+    const parsed: { translated?: string } = JSON.parse(text);
+    if (!parsed.translated) throw new Error("Empty translation returned");
+    return parsed.translated;
   } catch (error) {
-    console.error("Error analyzing video:", error);
+    console.error("Error shortening translation:", error);
     throw error;
   }
 };
 
 /**
- * Generates speech from text using Gemini TTS.
+ * Generates speech from text using Gemini TTS. `options.style` is sent as a
+ * spoken-delivery instruction ahead of the text.
  */
 export const generateSpeech = async (
   text: string,
-  voiceName: string = 'Zephyr'
+  voiceName: string = 'Zephyr',
+  options: SpeechOptions = {}
 ): Promise<string> => {
   // We use the TTS model
-  const model = "gemini-2.5-flash-preview-tts";
+  const model = TTS_MODEL;
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await generate("tts", {
       model: model,
-      contents: [{ parts: [{ text: text }] }],
+      contents: [{ parts: [{ text: styledSpeechText(text, options.style) }] }],
       config: {
         responseModalities: [Modality.AUDIO],
         speechConfig: {
@@ -104,14 +441,15 @@ export const generateSpeech = async (
           },
         },
       },
-    });
+    }, SPEECH_TIMEOUT_MS, options);
 
-    const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!audioData) {
+    const inlineData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData;
+    if (!inlineData?.data) {
       throw new Error("No audio data returned");
     }
 
-    return audioData; // This is the base64 string
+    // Normalised to raw 16-bit mono PCM at TTS_SAMPLE_RATE, whatever the model sent
+    return await normalizeSpeechAudio(inlineData.data, inlineData.mimeType);
   } catch (error) {
     console.error("Error generating speech:", error);
     throw error;
@@ -119,26 +457,7 @@ export const generateSpeech = async (
 };
 
 /**
- * Helper to decode base64 audio string to an Audio Blob URL
+ * Helper to turn base64 PCM from `generateSpeech` into a playable WAV Blob URL
  */
-export const base64ToAudioBlobUrl = (base64: string): string => {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  const blob = new Blob([bytes], { type: 'audio/wav' }); // Gemini typically returns raw PCM or WAV-like container depending on request, but browser handles the blob well usually if we assume wav/pcm context.
-  // Note: Gemini API returns raw PCM usually without headers if not specified, but the browser AudioContext decodeAudioData handles it. 
-  // However, for a simple <audio src="..."> element, we might need a container. 
-  // The official sample code for TTS suggests decoding via AudioContext for playback.
-  // To make it simple for the user to download or play in a standard HTML5 player, 
-  // we might need to wrap it or just use the AudioContext in the UI. 
-  // For this App, let's return the blob URL but we will implement the playback using AudioContext in the UI component 
-  // OR we can try to play it directly.
-  // Actually, standard HTML <audio> tags struggle with raw PCM. 
-  // We will use AudioContext in the frontend component to play this buffer.
-  // So this function is just a helper for `AudioContext.decodeAudioData`.
-  
-  return URL.createObjectURL(blob);
-};
+export const base64ToAudioBlobUrl = (base64: string): string =>
+  URL.createObjectURL(pcmBase64ToWavBlob(base64));
@@ -0,0 +1,177 @@
+import { GlossaryEntry, Segment } from "../types";
+
+/**
+ * Terminology the translation must follow: fixed renderings for jargon and
+ * do-not-translate terms for brand and product names.
+ */
+
+export interface GlossaryViolation {
+  segmentIndex: number;
+  entry: GlossaryEntry;
+  /** What the translation should have contained. */
+  expected: string;
+}
+
+const CSV_COLUMNS = ['term', 'translation', 'language', 'case_sensitive', 'do_not_translate'] as const;
+
+export const createGlossaryEntryId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Entries that apply when translating into `languageCode` (language-specific ones plus those for every language).
+ */
+export const glossaryForLanguage = (entries: GlossaryEntry[], languageCode: string | null | undefined): GlossaryEntry[] =>
+  entries.filter(entry => entry.term.trim() && (!entry.language || entry.language.toLowerCase() === languageCode?.toLowerCase()));
+
+/**
+ * The text a translation must contain wherever the term occurs in the source.
+ */
+export const expectedRendering = (entry: GlossaryEntry): string =>
+  entry.doNotTranslate ? entry.term.trim() : entry.translation.trim();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Scripts written without spaces between words (Korean attaches particles to nouns), where a
+// term is almost always next to other letters
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+
+// Whole-word match that also works for non-Latin scripts and terms with punctuation ("C++", "Wi-Fi").
+// An end of the term in an unspaced script matches inside words instead.
+const termPattern = (text: string, caseSensitive: boolean) => {
+  const chars = [...text];
+  const before = UNSPACED_SCRIPT.test(chars[0] ?? '') ? '' : '(?<![\\p{L}\\p{N}])';
+  const after = UNSPACED_SCRIPT.test(chars[chars.length - 1] ?? '') ? '' : '(?![\\p{L}\\p{N}])';
+  return new RegExp(`${before}${escapeRegExp(text)}${after}`, caseSensitive ? 'u' : 'iu');
+};
+
+/**
+ * Prompt block listing the terminology rules, or '' for an empty glossary.
+ */
+export const formatGlossaryPrompt = (entries: GlossaryEntry[]): string => {
+  const rules = entries
+    .filter(entry => entry.term.trim() && (entry.doNotTranslate || entry.translation.trim()))
+    .map(entry => {
+      const term = JSON.stringify(entry.term.trim());
+      const rule = entry.doNotTranslate
+        ? `keep exactly as ${term}, do not translate it`
+        : `always translate as ${JSON.stringify(entry.translation.trim())}`;
+      return `- ${term}${entry.caseSensitive ? ' (case-sensitive)' : ''}: ${rule}`;
+    });
+  if (rules.length === 0) return '';
+  return `Glossary. Apply these terminology rules in every translated line where the term occurs:\n${rules.join('\n')}`;
+};
+
+/**
+ * Finds segments whose source uses a glossary term but whose translation lacks the required rendering.
+ * Untranslated lines are skipped; they are reported by validation already.
+ */
+export const checkGlossary = (segments: Segment[], entries: GlossaryEntry[]): GlossaryViolation[] => {
+  const rules = entries
+    .filter(entry => entry.term.trim() && expectedRendering(entry))
+    .map(entry => ({
+      entry,
+      source: termPattern(entry.term.trim(), entry.caseSensitive),
+      target: termPattern(expectedRendering(entry), entry.caseSensitive),
+    }));
+
+  const violations: GlossaryViolation[] = [];
+  segments.forEach((segment, segmentIndex) => {
+    if (!segment.translated.trim()) return;
+    for (const { entry, source, target } of rules) {
+      if (source.test(segment.original) && !target.test(segment.translated)) {
+        violations.push({ segmentIndex, entry, expected: expectedRendering(entry) });
+      }
+    }
+  });
+  return violations;
+};
+
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const exportGlossaryCsv = (entries: GlossaryEntry[]): string =>
+  [
+    CSV_COLUMNS.join(','),
+    ...entries.map(entry => [
+      entry.term,
+      entry.translation,
+      entry.language ?? '',
+      entry.caseSensitive ? 'yes' : 'no',
+      entry.doNotTranslate ? 'yes' : 'no',
+    ].map(csvField).join(',')),
+  ].join('\r\n') + '\r\n';
+
+/**
+ * RFC 4180 rows: quoted fields may contain commas, doubled quotes and line breaks.
+ */
+const parseCsvRows = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value.trim()));
+};
+
+const isYes = (value: string | undefined) => /^(yes|y|true|1|x)$/i.test(value?.trim() ?? '');
+
+/**
+ * Reads a glossary CSV. A header row (matched by column name, in any order) is optional;
+ * without one the columns are read in the order written by `exportGlossaryCsv`.
+ */
+export const parseGlossaryCsv = (content: string): GlossaryEntry[] => {
+  const rows = parseCsvRows(content);
+  if (rows.length === 0) throw new Error("The CSV file is empty.");
+
+  const header = rows[0].map(value => value.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+  const hasHeader = header.includes('term');
+  const column = (name: typeof CSV_COLUMNS[number]) => (hasHeader ? header.indexOf(name) : CSV_COLUMNS.indexOf(name));
+
+  const entries = (hasHeader ? rows.slice(1) : rows)
+    .map(row => {
+      const get = (name: typeof CSV_COLUMNS[number]) => {
+        const index = column(name);
+        return index >= 0 ? (row[index] ?? '').trim() : '';
+      };
+      const language = get('language');
+      return {
+        id: createGlossaryEntryId(),
+        term: get('term'),
+        translation: get('translation'),
+        ...(language ? { language } : {}),
+        caseSensitive: isYes(get('case_sensitive')),
+        doNotTranslate: isYes(get('do_not_translate')),
+      };
+    })
+    .filter(entry => entry.term);
+
+  if (entries.length === 0) throw new Error(`No glossary terms found. Expected columns: ${CSV_COLUMNS.join(', ')}.`);
+  return entries;
+};
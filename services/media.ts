@@ -0,0 +1,47 @@
+import { AnalysisResult } from "../types";
+import { TranscribeOptions, TranslationProvider } from "./providers";
+import { ChunkProgress, transcribeLongMedia } from "./chunking";
+import { bytesToBase64 } from "./audio";
+
+// Files up to this size are sent inline; larger ones are transcribed as audio-only chunks
+export const MAX_FILE_SIZE_MB = 15;
+export const MAX_LONG_MEDIA_SIZE_MB = 500;
+
+export const isLongMedia = (file: Blob) => file.size > MAX_FILE_SIZE_MB * 1024 * 1024;
+
+// Reads through `arrayBuffer` rather than FileReader so this also runs outside the browser (CLI)
+export const fileToBase64 = async (file: Blob): Promise<string> =>
+  bytesToBase64(new Uint8Array(await file.arrayBuffer()));
+
+export interface TranscribeMediaOptions extends TranscribeOptions {
+  /** Called when the file is read and sent ('reading'), and per chunk for long media. */
+  onStage?: (stage: 'reading' | 'transcribing') => void;
+  onChunkProgress?: (chunks: ChunkProgress[]) => void;
+}
+
+/**
+ * Transcribes a media file in its own language, inlining it when small enough and
+ * falling back to chunked audio transcription otherwise.
+ */
+export const transcribeMediaFile = async (
+  file: File,
+  provider: TranslationProvider,
+  options: TranscribeMediaOptions = {}
+): Promise<AnalysisResult> => {
+  const { onStage, onChunkProgress, ...request } = options;
+  onStage?.('reading');
+
+  if (isLongMedia(file)) {
+    return transcribeLongMedia(file, provider.transcribe, {
+      onProgress: (chunks) => {
+        onStage?.('transcribing');
+        onChunkProgress?.(chunks);
+      },
+      ...request,
+    });
+  }
+
+  const base64 = await fileToBase64(file);
+  onStage?.('transcribing');
+  return provider.transcribe(base64, file.type, request);
+};
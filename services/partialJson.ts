@@ -0,0 +1,48 @@
+/**
+ * Reads what it can from a JSON response that is still streaming in. Structured output
+ * arrives as one document, so the items of its main array are only usable once each
+ * object is closed; this finds those without waiting for the whole document.
+ */
+
+/**
+ * Parses the complete objects so far in the array under `key` (the first one found), skipping
+ * the unfinished one at the end. Returns an empty list when the array has not started yet.
+ */
+export const completedArrayItems = <T>(text: string, key: string): T[] => {
+  const keyMatch = new RegExp(`"${key}"\\s*:\\s*\\[`).exec(text);
+  if (!keyMatch) return [];
+
+  const items: T[] = [];
+  let depth = 0;
+  let itemStart = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = keyMatch.index + keyMatch[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      if (depth === 0) itemStart = i;
+      depth++;
+    } else if (char === '}' || char === ']') {
+      if (depth === 0) break; // End of the array
+      depth--;
+      if (depth === 0 && itemStart >= 0) {
+        try {
+          items.push(JSON.parse(text.slice(itemStart, i + 1)));
+        } catch {
+          // A malformed item; the full response is validated (and repaired) at the end
+        }
+        itemStart = -1;
+      }
+    }
+  }
+  return items;
+};
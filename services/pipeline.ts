@@ -0,0 +1,369 @@
+import { AnalysisResult, LanguageOption, Segment, Speaker, SpeechStyle, TranslationStatus } from "../types";
+import { AnalyzeOptions, TranscribeOptions, TranslationProvider } from "./providers";
+import { isLongMedia, transcribeMediaFile } from "./media";
+import { ChunkProgress } from "./chunking";
+import { SegmentClip, SpeechSynthesizer, synthesizeSegmentClip } from "./dubbing";
+import { assignVoices, voiceForSegment } from "./speakers";
+import { formatTimestamp, parseTimestamp } from "./timecode";
+import { TranslatorError } from "./request";
+import { validateAnalysisResult } from "./validation";
+
+/**
+ * The translation pipeline without any UI, in two stages: transcribe the media in its own
+ * language, then translate the transcript as text and voice every line. The app pauses
+ * between the stages so the transcript can be reviewed; the CLI runs straight through.
+ * Both turn the pipeline's events into their own progress display.
+ *
+ * Responses are streamed, so lines are reported as they are produced, and speech for the
+ * first lines is generated while later ones are still being translated.
+ */
+
+export type PipelineSource =
+  | { kind: 'media'; file: File }
+  /**
+   * Timed source text: a reviewed transcript, imported captions, or a transcript made for
+   * another language. Only the text is translated; `base` contributes the detected language,
+   * summary and speakers.
+   */
+  | { kind: 'transcript'; segments: Segment[]; base?: AnalysisResult };
+
+export type PipelineEvent =
+  | { type: 'status'; status: TranslationStatus; message: string }
+  | { type: 'chunks'; chunks: ChunkProgress[] }
+  /** The source transcript, before it is translated. */
+  | { type: 'source'; result: AnalysisResult }
+  /**
+   * The lines so far while a stage streams in: the source transcript growing, or every line
+   * with the translation filling in.
+   */
+  | { type: 'partial'; stage: 'source' | 'translation'; result: AnalysisResult }
+  | { type: 'translation'; done: number; total: number }
+  /** The translated transcript, before any speech is generated. */
+  | { type: 'transcript'; result: AnalysisResult }
+  | { type: 'speech'; done: number; total: number }
+  /** Completion of the whole run, from 0 to 1, weighted by how long each stage usually takes. */
+  | { type: 'progress'; fraction: number };
+
+export interface TranscriptionOptions extends TranscribeOptions {
+  provider: TranslationProvider;
+  /**
+   * Length of the media in seconds, e.g. from the player. Transcription progress is how far
+   * into it the transcript has got; without it, only long media (split into windows) reports any.
+   */
+  mediaDuration?: number;
+  onEvent?: (event: PipelineEvent) => void;
+}
+
+export interface PipelineOptions extends AnalyzeOptions {
+  provider: TranslationProvider;
+  targetLanguage: LanguageOption;
+  /** Voice for the first speaker (or everyone); other speakers get distinct voices. */
+  voiceName: string;
+  generateDub: boolean;
+  speechStyle?: SpeechStyle;
+  /** See `TranscriptionOptions`; only used for media sources. */
+  mediaDuration?: number;
+  onEvent?: (event: PipelineEvent) => void;
+}
+
+export interface PipelineResult {
+  result: AnalysisResult;
+  /** One per segment, null for lines without text; empty when no dub was requested. */
+  clips: (SegmentClip | null)[];
+}
+
+// Lines per translation request, so long transcripts fit comfortably in one response
+const TRANSLATION_BATCH_LINES = 80;
+// Source lines either side of a batch, sent as context so lines at the cut read naturally
+const CONTEXT_LINES = 3;
+// Rough share of a run's time taken by each stage
+const STAGE_WEIGHTS = { transcription: 5, translation: 2, speech: 3 };
+
+type Stage = keyof typeof STAGE_WEIGHTS;
+
+/**
+ * Combines per-stage completion into one 'progress' fraction over the stages of this run.
+ * A stage never moves back, so a retried request does not rewind the bar.
+ */
+const createProgress = (stages: Stage[], onEvent?: (event: PipelineEvent) => void) => {
+  const done = new Map<Stage, number>();
+  const total = stages.reduce((sum, stage) => sum + STAGE_WEIGHTS[stage], 0);
+  return (stage: Stage, fraction: number) => {
+    done.set(stage, Math.max(done.get(stage) ?? 0, Math.min(1, fraction)));
+    const weighted = stages.reduce((sum, s) => sum + STAGE_WEIGHTS[s] * (done.get(s) ?? 0), 0);
+    onEvent?.({ type: 'progress', fraction: weighted / total });
+  };
+};
+
+export interface TranslateTranscriptOptions extends AnalyzeOptions {
+  base?: Pick<AnalysisResult, 'detectedLanguage' | 'summary' | 'speakers'>;
+  /** Called after each batch with the number of lines translated so far. */
+  onProgress?: (done: number, total: number) => void;
+}
+
+// Source lines are sent with an empty translation
+const untranslated = (segments: Segment[]) => segments.map(segment => ({ ...segment, translated: '' }));
+
+/**
+ * Translates timed source text in batches, each sent with its neighbouring lines as context.
+ * Detection results from `base` win over the ones from the text, since they came from the
+ * media itself. `onSegments` gets the whole transcript each time, translated so far.
+ */
+export const translateTranscript = async (
+  segments: Segment[],
+  targetLanguage: string,
+  provider: TranslationProvider,
+  options: TranslateTranscriptOptions = {}
+): Promise<AnalysisResult> => {
+  const { base, onProgress, onSegments, ...request } = options;
+  const sourceSegments = untranslated(segments);
+  const translatedSoFar = (batches: AnalysisResult[]) => batches.flatMap(batch => batch.segments);
+
+  const batches: AnalysisResult[] = [];
+  for (let start = 0; start < sourceSegments.length; start += TRANSLATION_BATCH_LINES) {
+    const end = Math.min(sourceSegments.length, start + TRANSLATION_BATCH_LINES);
+    const context = {
+      before: sourceSegments.slice(Math.max(0, start - CONTEXT_LINES), start).map(segment => segment.original),
+      after: sourceSegments.slice(end, end + CONTEXT_LINES).map(segment => segment.original),
+    };
+    const rest = sourceSegments.slice(end);
+    batches.push(await provider.translate(sourceSegments.slice(start, end), targetLanguage, {
+      ...request,
+      context,
+      onSegments: onSegments && (partial => onSegments([...translatedSoFar(batches), ...partial, ...rest])),
+    }));
+    onSegments?.([...translatedSoFar(batches), ...rest]);
+    onProgress?.(end, sourceSegments.length);
+  }
+
+  // Re-validated as a whole so warnings are numbered across the full transcript
+  const translated = batches.length === 1 ? batches[0] : validateAnalysisResult({
+    detectedLanguage: batches[0]?.detectedLanguage ?? '',
+    summary: batches[0]?.summary ?? '',
+    segments: translatedSoFar(batches),
+  });
+  if (!base) return translated;
+  return {
+    ...translated,
+    detectedLanguage: base.detectedLanguage || translated.detectedLanguage,
+    summary: base.summary || translated.summary,
+    speakers: base.speakers,
+  };
+};
+
+/**
+ * First stage: transcribes media in its own language. The result can be reviewed and edited,
+ * then translated as a 'transcript' source.
+ */
+export const transcribeSource = async (file: File, options: TranscriptionOptions): Promise<AnalysisResult> => {
+  const { provider, mediaDuration, onEvent, ...request } = options;
+  const status = (status: TranslationStatus, message: string) => onEvent?.({ type: 'status', status, message });
+  const progress = createProgress(['transcription'], onEvent);
+  const longMedia = isLongMedia(file);
+  let duration = mediaDuration;
+
+  // Long media is transcribed as audio in time windows and stitched
+  const result = await transcribeMediaFile(file, provider, {
+    ...request,
+    onStage: (stage) => {
+      if (stage === 'reading') {
+        status(TranslationStatus.UPLOADING, longMedia ? "Extracting audio track..." : "Reading video file...");
+      } else if (!longMedia) {
+        status(TranslationStatus.TRANSCRIBING, "AI is transcribing the audio...");
+      }
+    },
+    onChunkProgress: (chunks) => {
+      onEvent?.({ type: 'chunks', chunks });
+      duration ||= chunks[chunks.length - 1]?.window.end;
+      const doneUntil = Math.max(0, ...chunks.filter(c => c.state === 'done').map(c => c.window.end));
+      if (duration) progress('transcription', doneUntil / duration);
+      const current = chunks.find(c => c.state === 'transcribing');
+      if (current) {
+        status(
+          TranslationStatus.TRANSCRIBING,
+          `Transcribing part ${current.window.index + 1}/${chunks.length} (${formatTimestamp(current.window.start)} - ${formatTimestamp(current.window.end)})...`
+        );
+      }
+    },
+    onSegments: (segments) => {
+      onEvent?.({ type: 'partial', stage: 'source', result: { detectedLanguage: '', summary: '', segments } });
+      const last = segments[segments.length - 1];
+      if (duration && last) progress('transcription', parseTimestamp(last.end) / duration);
+    },
+  });
+
+  if (!result.segments || result.segments.length === 0) {
+    throw new Error("No speech detected in this video to translate.");
+  }
+  progress('transcription', 1);
+  onEvent?.({ type: 'source', result });
+  return result;
+};
+
+const speechMessage = (speakers: Speaker[] | undefined, options: PipelineOptions, done: number, total: number) => {
+  const line = `${Math.min(done + 1, total)}/${total}`;
+  return speakers && speakers.length > 1
+    ? `Generating ${options.targetLanguage.name} speech for ${speakers.length} speakers (${line})...`
+    : `Generating ${options.targetLanguage.name} speech with voice ${options.voiceName} (${line})...`;
+};
+
+/**
+ * Voices lines one at a time (the TTS endpoint rate-limits bursts) in the order they are
+ * queued, so early lines can be spoken while later ones are still being translated. A clip
+ * depends only on its text and voice, so clips are kept by those rather than by position:
+ * validation may still sort the lines after the first ones were voiced. Queuing a line again
+ * with other text or another voice replaces what it needs; the first failure stops the queue
+ * and is thrown from `drain`.
+ */
+const createSpeechQueue = (
+  total: number,
+  synthesize: SpeechSynthesizer,
+  options: { signal: AbortSignal; style?: SpeechStyle; onClip: (done: number, total: number) => void }
+) => {
+  const requestFor = (segment: Segment, voiceName: string) => `${voiceName}\n${segment.translated?.trim() ?? ''}`;
+  const clips = new Map<string, SegmentClip | null>();
+  const queued = new Set<string>();
+  // What each line currently needs, for counting progress and skipping superseded requests
+  let lines = new Map<number, string>();
+  let queue = Promise.resolve();
+  let reported = 0;
+
+  const done = () => [...lines.values()].filter(request => clips.has(request)).length;
+  const report = () => {
+    reported = done();
+    options.onClip(reported, total);
+  };
+
+  const voice = (index: number, segment: Segment, voiceName: string) => {
+    const request = requestFor(segment, voiceName);
+    lines.set(index, request);
+    if (queued.has(request)) return;
+    queued.add(request);
+    queue = queue.then(async () => {
+      if (options.signal.aborted) throw new TranslatorError('cancelled');
+      // Superseded while waiting in the queue
+      if (![...lines.values()].includes(request)) {
+        queued.delete(request);
+        return;
+      }
+      clips.set(request, await synthesizeSegmentClip(segment, synthesize, voiceName, { signal: options.signal, style: options.style }));
+      report();
+    });
+    // Failures are thrown from `drain`; this only keeps them from going unhandled until then
+    queue.catch(() => {});
+  };
+
+  return {
+    voice,
+    done,
+    /** Queues the final lines, replacing everything queued for the streamed ones. */
+    voiceAll: (segments: Segment[], voiceFor: (segment: Segment) => string) => {
+      lines = new Map();
+      segments.forEach((segment, index) => voice(index, segment, voiceFor(segment)));
+    },
+    drain: async (segments: Segment[], voiceFor: (segment: Segment) => string): Promise<(SegmentClip | null)[]> => {
+      await queue;
+      // Lines that reuse a clip voiced for another line never triggered a report of their own
+      if (done() !== reported) report();
+      return segments.map(segment => clips.get(requestFor(segment, voiceFor(segment))) ?? null);
+    },
+  };
+};
+
+/**
+ * Runs both stages for one target language without stopping for review. Cancelling through
+ * `signal` during speech generation still leaves the transcript, which was reported in a
+ * 'transcript' event.
+ */
+export const runTranslationPipeline = async (
+  source: PipelineSource,
+  options: PipelineOptions
+): Promise<PipelineResult> => {
+  const { provider, targetLanguage, voiceName, generateDub, speechStyle, mediaDuration, onEvent, ...request } = options;
+  const status = (status: TranslationStatus, message: string) => onEvent?.({ type: 'status', status, message });
+  const stages: Stage[] = [...(source.kind === 'media' ? ['transcription' as const] : []), 'translation', ...(generateDub ? ['speech' as const] : [])];
+  const progress = createProgress(stages, onEvent);
+
+  let segments: Segment[];
+  let base: AnalysisResult | undefined;
+  if (source.kind === 'media') {
+    base = await transcribeSource(source.file, {
+      ...request,
+      provider,
+      mediaDuration,
+      onEvent: event => event.type === 'progress' ? progress('transcription', event.fraction) : onEvent?.(event),
+    });
+    segments = base.segments;
+  } else {
+    segments = source.segments;
+    base = source.base;
+  }
+
+  // Lines are voiced as soon as their translation arrives. Speech has its own signal so a
+  // failed translation also stops it.
+  const speechController = new AbortController();
+  const stopSpeech = () => speechController.abort();
+  request.signal?.addEventListener('abort', stopSpeech);
+  const earlySpeakers = base?.speakers && assignVoices(base.speakers, voiceName);
+  let translating = true;
+  const speech = generateDub ? createSpeechQueue(segments.length, provider.synthesize, {
+    signal: speechController.signal,
+    style: speechStyle,
+    onClip: (done, total) => {
+      onEvent?.({ type: 'speech', done, total });
+      progress('speech', done / total);
+      // Names the line being voiced next, so nothing is left to announce after the last one
+      if (!translating && done < total) status(TranslationStatus.GENERATING_SPEECH, speechMessage(earlySpeakers, options, done, total));
+    },
+  }) : null;
+
+  try {
+    // Only the text is sent for translation, in batches for long transcripts
+    const lines = `${segments.length} ${base ? 'transcript' : 'caption'} lines`;
+    const partialBase = { detectedLanguage: base?.detectedLanguage ?? '', summary: base?.summary ?? '', speakers: base?.speakers };
+    status(TranslationStatus.TRANSLATING, `Translating ${lines} to ${targetLanguage.name}...`);
+    let result = await translateTranscript(segments, targetLanguage.name, provider, {
+      ...request,
+      base,
+      onSegments: (partial) => {
+        onEvent?.({ type: 'partial', stage: 'translation', result: { ...partialBase, segments: partial } });
+        progress('translation', partial.filter(segment => segment.translated).length / partial.length);
+        partial.forEach((segment, index) => {
+          if (segment.translated) speech?.voice(index, segment, voiceForSegment(segment, earlySpeakers, voiceName));
+        });
+      },
+      onProgress: (done, total) => {
+        onEvent?.({ type: 'translation', done, total });
+        if (done < total) status(TranslationStatus.TRANSLATING, `Translating ${lines} to ${targetLanguage.name} (${done}/${total} done)...`);
+      },
+    });
+    translating = false;
+    progress('translation', 1);
+
+    if (result.speakers) {
+      result = { ...result, speakers: assignVoices(result.speakers, voiceName) };
+    }
+    onEvent?.({ type: 'transcript', result });
+
+    if (!result.segments || result.segments.length === 0) {
+      throw new Error("No speech detected in this video to translate.");
+    }
+    if (!speech) return { result, clips: [] };
+
+    // Each line is voiced separately so it can be placed at its own timestamp. Lines voiced
+    // early are kept unless their final text or voice differs.
+    const speakers = result.speakers;
+    const voiceFor = (segment: Segment) => voiceForSegment(segment, speakers, voiceName);
+    speech.voiceAll(result.segments, voiceFor);
+    if (speech.done() < segments.length) {
+      status(TranslationStatus.GENERATING_SPEECH, speechMessage(speakers, options, speech.done(), segments.length));
+    }
+    const clips = await speech.drain(result.segments, voiceFor);
+    return { result, clips };
+  } catch (error) {
+    stopSpeech();
+    throw error;
+  } finally {
+    request.signal?.removeEventListener('abort', stopSpeech);
+  }
+};
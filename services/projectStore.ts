@@ -0,0 +1,202 @@
+import { AnalysisResult, Segment, SpeechStyle, TranslationStyle } from "../types";
+import { SegmentClip } from "./dubbing";
+import { UsageSummary } from "./usage";
+
+/**
+ * Local persistence of projects in IndexedDB, so a refresh does not throw away
+ * results that cost API quota to produce.
+ *
+ * Source media and dub clips live in their own object stores and are only written when
+ * they change; the project record itself is small and rewritten on every autosave.
+ */
+
+const DB_NAME = 'gemini-video-translator';
+const DB_VERSION = 2;
+const PROJECTS = 'projects';
+const MEDIA = 'media';
+// Keyed by [project id, language code]
+const CLIPS = 'clips';
+
+export interface ProjectLanguage {
+  result: AnalysisResult;
+}
+
+export type ProjectClips = (SegmentClip | null)[];
+
+export interface ProjectSettings {
+  targetLangCode: string;
+  generateDub: boolean;
+  /** Chosen TTS voice; absent or null means the target language's default. */
+  voiceName?: string | null;
+  speechStyle?: SpeechStyle;
+  /** Forced source language; absent or null means it is auto-detected. */
+  sourceLangCode?: string | null;
+  translationStyle?: TranslationStyle;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  /** Metadata of the source video; the bytes are loaded with `getProjectMedia`. */
+  media: { name: string; type: string; size: number } | null;
+  importedSubtitles: { fileName: string; segments: Segment[] } | null;
+  /**
+   * Reviewed source transcript of the media, which new languages are translated from.
+   * Absent for caption projects and for projects saved before transcription was its own stage.
+   */
+  sourceTranscript?: AnalysisResult | null;
+  /** Transcript (including edits) per target language code; clips are loaded with `getProjectClips`. */
+  languages: Record<string, ProjectLanguage>;
+  settings: ProjectSettings;
+  /** Tokens and cost spent on this project so far, across runs and edits. */
+  usage?: UsageSummary;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) {
+          db.createObjectStore(PROJECTS, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(MEDIA)) {
+          db.createObjectStore(MEDIA);
+        }
+        if (!db.objectStoreNames.contains(CLIPS)) {
+          db.createObjectStore(CLIPS);
+          // Version 1 kept clips inside the project record
+          const projects = request.transaction!.objectStore(PROJECTS);
+          const clips = request.transaction!.objectStore(CLIPS);
+          projects.openCursor().onsuccess = (event) => {
+            const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            const project = cursor.value as Project & { languages: Record<string, ProjectLanguage & { clips?: ProjectClips }> };
+            for (const [code, { clips: languageClips, ...language }] of Object.entries(project.languages)) {
+              if (languageClips?.length) clips.put(languageClips, [project.id, code]);
+              project.languages[code] = language;
+            }
+            cursor.update(project);
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Every clip key of a project: arrays sort after strings, so [id, []] is past any [id, code]
+const projectClipsRange = (id: string) => IDBKeyRange.bound([id], [id, []]);
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const createProjectId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * All projects, most recently updated first.
+ */
+export const listProjects = async (): Promise<Project[]> => {
+  const db = await openDb();
+  const projects = await promisify<Project[]>(db.transaction(PROJECTS).objectStore(PROJECTS).getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<Project | undefined> => {
+  const db = await openDb();
+  return promisify<Project | undefined>(db.transaction(PROJECTS).objectStore(PROJECTS).get(id));
+};
+
+export const getProjectMedia = async (id: string): Promise<Blob | undefined> => {
+  const db = await openDb();
+  return promisify<Blob | undefined>(db.transaction(MEDIA).objectStore(MEDIA).get(id));
+};
+
+/**
+ * Dub clips of one language, or an empty list when none were saved.
+ */
+export const getProjectClips = async (id: string, languageCode: string): Promise<ProjectClips> => {
+  const db = await openDb();
+  return (await promisify<ProjectClips | undefined>(db.transaction(CLIPS).objectStore(CLIPS).get([id, languageCode]))) ?? [];
+};
+
+/**
+ * Saves the project record. Pass `media` only when the source file changed, and `clips`
+ * only when a language's clips changed; otherwise the stored audio is left untouched.
+ */
+export const saveProject = async (
+  project: Project,
+  media?: Blob | null,
+  clips?: { languageCode: string; clips: ProjectClips }
+): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, MEDIA, CLIPS], 'readwrite');
+  tx.objectStore(PROJECTS).put({ ...project, updatedAt: Date.now() });
+  if (media !== undefined) {
+    if (media) tx.objectStore(MEDIA).put(media, project.id);
+    else tx.objectStore(MEDIA).delete(project.id);
+  }
+  if (clips) {
+    tx.objectStore(CLIPS).put(clips.clips, [project.id, clips.languageCode]);
+  }
+  await transactionDone(tx);
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await getProject(id);
+  if (!project) return;
+  await saveProject({ ...project, name });
+};
+
+export const duplicateProject = async (id: string): Promise<Project | undefined> => {
+  const [project, media] = await Promise.all([getProject(id), getProjectMedia(id)]);
+  if (!project) return undefined;
+
+  const now = Date.now();
+  const copy: Project = { ...project, id: createProjectId(), name: `${project.name} (copy)`, createdAt: now, updatedAt: now };
+  await saveProject(copy, media ?? null);
+
+  const db = await openDb();
+  const tx = db.transaction(CLIPS, 'readwrite');
+  const store = tx.objectStore(CLIPS);
+  const [keys, values] = await Promise.all([
+    promisify(store.getAllKeys(projectClipsRange(id))),
+    promisify<ProjectClips[]>(store.getAll(projectClipsRange(id))),
+  ]);
+  keys.forEach((key, i) => store.put(values[i], [copy.id, (key as [string, string])[1]]));
+  await transactionDone(tx);
+  return copy;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, MEDIA, CLIPS], 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  tx.objectStore(MEDIA).delete(id);
+  tx.objectStore(CLIPS).delete(projectClipsRange(id));
+  await transactionDone(tx);
+};
@@ -0,0 +1,13 @@
+import { TranslationProvider } from "./types";
+import { ANALYSIS_MODEL, generateSpeech, shortenTranslation, transcribeMedia, translateSegment, translateSegments, TTS_MODEL } from "../gemini";
+
+export const geminiProvider: TranslationProvider = {
+  id: 'gemini',
+  label: 'Gemini 2.5 Flash & TTS',
+  models: { analysis: ANALYSIS_MODEL, speech: TTS_MODEL },
+  transcribe: transcribeMedia,
+  translate: translateSegments,
+  translateLine: translateSegment,
+  shortenLine: shortenTranslation,
+  synthesize: generateSpeech,
+};
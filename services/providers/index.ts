@@ -0,0 +1,25 @@
+import { TranslationProvider } from "./types";
+import { geminiProvider } from "./gemini";
+import { mockProvider } from "./mock";
+
+export type { AnalyzeOptions, TranscribeOptions, TranslateOptions, TranslationContext, TranslationProvider } from "./types";
+
+const PROVIDERS: Record<string, TranslationProvider> = {
+  [geminiProvider.id]: geminiProvider,
+  [mockProvider.id]: mockProvider,
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDERS);
+
+/**
+ * Resolves the provider named by `TRANSLATOR_PROVIDER` (see vite.config.ts), defaulting to Gemini.
+ */
+export const getProvider = (id: string | undefined = process.env.TRANSLATOR_PROVIDER): TranslationProvider => {
+  if (!id) return geminiProvider;
+  const provider = PROVIDERS[id];
+  if (!provider) {
+    console.warn(`Unknown provider "${id}", falling back to ${geminiProvider.id}`);
+    return geminiProvider;
+  }
+  return provider;
+};
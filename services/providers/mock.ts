@@ -0,0 +1,110 @@
+import { TranslationProvider } from "./types";
+import { AnalysisResult, Segment } from "../../types";
+import { TTS_SAMPLE_RATE, pcm16ToBase64 } from "../audio";
+import { sleep } from "../request";
+
+/**
+ * Offline provider with canned, deterministic output. Used for UI development and
+ * for running the app without network access or an API key.
+ */
+
+const CANNED_LINES = [
+  "Welcome back to the channel.",
+  "Today we are looking at how video translation works.",
+  "First, the speech is transcribed with timestamps.",
+  "Then every line is translated and voiced again.",
+];
+
+const SECONDS_PER_LINE = 4;
+const SPEECH_SECONDS_PER_CHAR = 0.06;
+const LATENCY_MS = 300;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toMmSs = (seconds: number) => `${pad(Math.floor(seconds / 60))}:${pad(seconds % 60)}`;
+
+const mockTranslate = (text: string, targetLanguage: string) => `[${targetLanguage}] ${text}`;
+
+/**
+ * Stable small hash so each voice gets its own tone.
+ */
+const hash = (value: string) => [...value].reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 7);
+
+/**
+ * A sine tone whose length follows the text length, with a short silence on either side.
+ */
+const tone = (text: string, voiceName: string): Int16Array => {
+  const frequency = 180 + (hash(voiceName) % 8) * 30;
+  const toneSamples = Math.round(Math.max(0.5, text.length * SPEECH_SECONDS_PER_CHAR) * TTS_SAMPLE_RATE);
+  const silence = Math.round(0.1 * TTS_SAMPLE_RATE);
+  const samples = new Int16Array(toneSamples + silence * 2);
+  for (let i = 0; i < toneSamples; i++) {
+    // Short attack/release so clips don't click when they are laid end to end
+    const envelope = Math.min(1, i / 240, (toneSamples - i) / 240);
+    samples[silence + i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / TTS_SAMPLE_RATE) * envelope * 0.3 * 32767);
+  }
+  return samples;
+};
+
+/**
+ * Waits out the latency in steps, reporting one more line after each step, the way a
+ * streamed response fills in.
+ */
+const streamLines = async (segments: Segment[], onSegments: ((segments: Segment[]) => void) | undefined, signal?: AbortSignal) => {
+  if (!onSegments) return sleep(LATENCY_MS, signal);
+  for (let i = 1; i <= segments.length; i++) {
+    await sleep(LATENCY_MS / segments.length, signal);
+    onSegments(segments.slice(0, i));
+  }
+};
+
+export const mockProvider: TranslationProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+
+  transcribe: async (_base64Media, _mimeType, options): Promise<AnalysisResult> => {
+    const segments: Segment[] = CANNED_LINES.map((line, i) => ({
+      start: toMmSs(i * SECONDS_PER_LINE),
+      end: toMmSs((i + 1) * SECONDS_PER_LINE - 1),
+      original: line,
+      translated: '',
+      // Two alternating speakers so per-speaker voices can be tried offline
+      speaker: i % 2 === 0 ? 'S1' : 'S2',
+    }));
+    await streamLines(segments, options?.onSegments, options?.signal);
+    return {
+      detectedLanguage: options?.sourceLanguage ?? 'English',
+      summary: 'A canned transcript from the offline mock provider.',
+      segments,
+      speakers: [
+        { id: 'S1', name: 'Speaker 1', gender: 'female', age: 'adult' },
+        { id: 'S2', name: 'Speaker 2', gender: 'male', age: 'adult' },
+      ],
+    };
+  },
+
+  translate: async (segments, targetLanguage, options): Promise<AnalysisResult> => {
+    const translated = segments.map(segment => ({ ...segment, translated: mockTranslate(segment.original, targetLanguage) }));
+    const onSegments = options?.onSegments;
+    await streamLines(translated, onSegments && (done => onSegments([...done, ...segments.slice(done.length).map(segment => ({ ...segment, translated: '' }))])), options?.signal);
+    return {
+      detectedLanguage: options?.sourceLanguage ?? 'Unknown (mock)',
+      summary: 'Translated by the offline mock provider.',
+      segments: translated,
+    };
+  },
+
+  translateLine: async (original, targetLanguage, _context, options) => {
+    await sleep(LATENCY_MS, options?.signal);
+    return mockTranslate(original, targetLanguage);
+  },
+
+  shortenLine: async (_original, translated, _targetLanguage, maxChars, options) => {
+    await sleep(LATENCY_MS, options?.signal);
+    return translated.length <= maxChars ? translated : `${translated.slice(0, Math.max(0, maxChars - 1)).trimEnd()}…`;
+  },
+
+  synthesize: async (text, voiceName, options) => {
+    await sleep(LATENCY_MS / 3, options?.signal);
+    return pcm16ToBase64(tone(text, voiceName));
+  },
+};
@@ -0,0 +1,71 @@
+import { AnalysisResult, GlossaryEntry, Segment, TranslationStyle } from "../../types";
+import { RequestOptions } from "../request";
+import { SpeechOptions } from "../dubbing";
+
+export interface TranscribeOptions extends RequestOptions {
+  /** Language the speech is in, when auto-detection gets it wrong. Omit to detect it. */
+  sourceLanguage?: string;
+  /**
+   * Called as the response streams in: from `transcribe` with the lines transcribed so far,
+   * from `translate` with every input line, `translated` filled in for those done so far.
+   * Providers that cannot stream may never call it.
+   */
+  onSegments?: (segments: Segment[]) => void;
+}
+
+export interface AnalyzeOptions extends TranscribeOptions {
+  /** Terminology for the target language; callers filter it with `glossaryForLanguage`. */
+  glossary?: GlossaryEntry[];
+  /** Register, audience and length budget for the translation. */
+  translationStyle?: TranslationStyle;
+}
+
+/** Source lines next to the ones being translated, sent only as context. */
+export interface TranslationContext {
+  before?: string[];
+  after?: string[];
+}
+
+export interface TranslateOptions extends AnalyzeOptions {
+  /** Lines around a batch of a longer transcript, so its first and last lines read in context. */
+  context?: TranslationContext;
+}
+
+/**
+ * A backend that can transcribe, translate and voice media. The app only talks to
+ * providers through this interface, so vendors (or the offline mock) are interchangeable.
+ *
+ * All audio is base64 raw 16-bit mono PCM at `TTS_SAMPLE_RATE`. Every call accepts
+ * `RequestOptions` so it can be cancelled through `signal`.
+ */
+export interface TranslationProvider {
+  id: string;
+  /** Shown in the UI, e.g. "Gemini 2.5 Flash & TTS". */
+  label: string;
+  /** Model names, so cached results are not reused across model changes. */
+  models?: { analysis: string; speech: string };
+  /**
+   * Transcribes inline media (video or audio) in its own language. Segments come back with
+   * an empty `translated`, ready to be reviewed and then passed to `translate`.
+   */
+  transcribe: (base64Media: string, mimeType: string, options?: TranscribeOptions) => Promise<AnalysisResult>;
+  /** Translates source segments (a transcript or imported captions) without any media. */
+  translate: (segments: Segment[], targetLanguage: string, options?: TranslateOptions) => Promise<AnalysisResult>;
+  /** Re-translates one line with neighbouring source lines as context. */
+  translateLine: (
+    original: string,
+    targetLanguage: string,
+    context?: TranslationContext,
+    options?: AnalyzeOptions
+  ) => Promise<string>;
+  /** Rewrites a translated line to at most `maxChars` characters, keeping its meaning. */
+  shortenLine: (
+    original: string,
+    translated: string,
+    targetLanguage: string,
+    maxChars: number,
+    options?: AnalyzeOptions
+  ) => Promise<string>;
+  /** Voices one line; `options.style` carries delivery directions. */
+  synthesize: (text: string, voiceName: string, options?: SpeechOptions) => Promise<string>;
+}
@@ -0,0 +1,140 @@
+import { GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+
+/**
+ * Transport for Gemini calls. The browser never sees the API key: requests go to the
+ * local API proxy (server/index.js), which holds the key and forwards them. In development
+ * Vite proxies `/api` to it (see vite.config.ts).
+ */
+
+export type ProxyEndpoint = 'analyze' | 'translate' | 'tts';
+
+const CLIENT_ID_KEY = 'gemini-video-translator:client-id';
+
+/**
+ * A non-2xx response from the proxy. Carries the HTTP status, so `classifyError`
+ * treats it like the equivalent SDK error.
+ */
+export class ProxyError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+// Same origin in the browser; the CLI points it at a running proxy
+let apiBase = '/api';
+
+/**
+ * Sends requests to the proxy at `origin` (e.g. "http://localhost:8787") instead of the page's own.
+ */
+export const setProxyOrigin = (origin: string) => {
+  apiBase = `${origin.replace(/\/+$/, '')}/api`;
+};
+
+let clientId: string | null = null;
+
+/**
+ * A random id for this browser, which the proxy uses to rate-limit per user.
+ */
+const getClientId = (): string => {
+  if (clientId) return clientId;
+  try {
+    clientId = localStorage.getItem(CLIENT_ID_KEY);
+    if (!clientId) {
+      clientId = crypto.randomUUID();
+      localStorage.setItem(CLIENT_ID_KEY, clientId);
+    }
+  } catch {
+    // Storage can be unavailable (private mode); an id per page load still works
+    clientId = clientId || crypto.randomUUID();
+  }
+  return clientId;
+};
+
+const post = async (
+  endpoint: ProxyEndpoint,
+  params: GenerateContentParameters,
+  signal: AbortSignal | undefined,
+  stream: boolean
+): Promise<Response> => {
+  // The signal is for fetch; it cannot be serialized into the request
+  const { abortSignal: _abortSignal, ...config } = params.config ?? {};
+
+  const response = await fetch(`${apiBase}/${endpoint}${stream ? '?stream=1' : ''}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Client-Id': getClientId() },
+    body: JSON.stringify({ ...params, config }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ProxyError(response.status, body?.error?.message || `API proxy returned status ${response.status}`);
+  }
+  return response;
+};
+
+/**
+ * Sends `generateContent` parameters to the proxy endpoint and returns the response,
+ * with the SDK's accessors (`text`, ...) available as if the SDK had been called directly.
+ */
+export const proxyGenerateContent = async (
+  endpoint: ProxyEndpoint,
+  params: GenerateContentParameters,
+  signal?: AbortSignal
+): Promise<GenerateContentResponse> => {
+  const response = await post(endpoint, params, signal, false);
+  return Object.assign(new GenerateContentResponse(), await response.json());
+};
+
+/**
+ * Like `proxyGenerateContent`, but streamed: `onText` gets the text received so far after every
+ * chunk. Resolves with one response holding the whole text, and the finish reason, safety
+ * feedback and usage of the last chunk.
+ */
+export const proxyGenerateContentStream = async (
+  endpoint: ProxyEndpoint,
+  params: GenerateContentParameters,
+  onText: (textSoFar: string) => void,
+  signal?: AbortSignal
+): Promise<GenerateContentResponse> => {
+  const response = await post(endpoint, params, signal, true);
+  if (!response.body) throw new ProxyError(502, 'API proxy returned an empty stream');
+
+  // One JSON chunk per line; a line with "error" reports a failure after streaming started
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let text = '';
+  let last: GenerateContentResponse | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const json = JSON.parse(line);
+    if (json.error) throw new ProxyError(json.error.status || 502, json.error.message || 'Streaming failed');
+    last = Object.assign(new GenerateContentResponse(), json);
+    const chunkText = last.text;
+    if (chunkText) {
+      text += chunkText;
+      onText(text);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    lines.forEach(handleLine);
+    if (done) break;
+  }
+  handleLine(buffered);
+
+  if (!last) throw new ProxyError(502, 'API proxy returned an empty stream');
+  const final: GenerateContentResponse = last;
+  const candidate = final.candidates?.[0];
+  return Object.assign(new GenerateContentResponse(), {
+    ...final,
+    candidates: [{ ...candidate, content: { role: 'model', parts: [{ text }] } }],
+  });
+};
@@ -0,0 +1,167 @@
+/**
+ * Retry, timeout and cancellation around model calls, plus classification of the
+ * errors they throw into something a user can act on.
+ */
+
+import type { UsageRecord } from "./usage";
+
+export type RequestErrorKind =
+  | 'quota'
+  | 'safety'
+  | 'invalid_media'
+  | 'auth'
+  | 'network'
+  | 'server'
+  | 'timeout'
+  | 'cancelled'
+  | 'unknown';
+
+const USER_MESSAGES: Record<RequestErrorKind, string> = {
+  quota: "The API rate limit or quota was reached. Wait a minute and try again, or check your plan's quota.",
+  safety: "The model refused this content because of its safety filters. Try a different video or edit the text.",
+  invalid_media: "The file could not be processed. Make sure it is a supported, uncorrupted video (MP4, WEBM, MOV).",
+  auth: "The API key was rejected. Check GEMINI_API_KEY in .env.local and restart the API proxy.",
+  network: "Could not reach the API. Check your internet connection and try again.",
+  server: "The API is temporarily unavailable. Please try again in a moment.",
+  timeout: "The request took too long and was stopped. Shorter videos process faster.",
+  cancelled: "Cancelled.",
+  unknown: "An unexpected error occurred during processing.",
+};
+
+const RETRYABLE = new Set<RequestErrorKind>(['quota', 'network', 'server', 'timeout']);
+
+export class TranslatorError extends Error {
+  readonly retryable: boolean;
+
+  constructor(public readonly kind: RequestErrorKind, message?: string, public readonly cause?: unknown) {
+    super(message || USER_MESSAGES[kind]);
+    this.name = 'TranslatorError';
+    this.retryable = RETRYABLE.has(kind);
+  }
+
+  /** A message suitable for showing to the user. */
+  get userMessage(): string {
+    return USER_MESSAGES[this.kind];
+  }
+}
+
+// A property of a thrown value, which may be anything
+const field = (value: unknown, key: string): unknown =>
+  typeof value === 'object' && value !== null && key in value ? (value as Record<string, unknown>)[key] : undefined;
+
+const statusOf = (error: unknown): number | undefined => {
+  const status = field(error, 'status') ?? field(error, 'code') ?? field(field(error, 'response'), 'status');
+  if (typeof status === 'number') return status;
+  // The SDK sometimes only has the status embedded in the message, e.g. "got status: 429"
+  const match = /status:? (\d{3})/i.exec(String(field(error, 'message') ?? ''));
+  return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * Maps any thrown value onto a `TranslatorError`.
+ */
+export const classifyError = (error: unknown): TranslatorError => {
+  if (error instanceof TranslatorError) return error;
+
+  const message = String(field(error, 'message') ?? error ?? '');
+  const status = statusOf(error);
+
+  let kind: RequestErrorKind = 'unknown';
+  if (field(error, 'name') === 'AbortError') kind = 'cancelled';
+  else if (status === 429 || /quota|rate limit|resource.?exhausted/i.test(message)) kind = 'quota';
+  else if (status === 401 || status === 403 || /api key/i.test(message)) kind = 'auth';
+  else if (status !== undefined && status >= 500) kind = 'server';
+  else if (/safety|blocked|prohibited/i.test(message)) kind = 'safety';
+  else if (status === 400 && /mime|media|inline|file|unsupported|decode/i.test(message)) kind = 'invalid_media';
+  else if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) kind = 'network';
+
+  return new TranslatorError(kind, message || undefined, error);
+};
+
+/**
+ * The message to show for an error thrown anywhere in the pipeline.
+ */
+export const describeError = (error: unknown): string => {
+  const classified = classifyError(error);
+  // Unclassified errors usually carry a more useful message of their own (e.g. "No speech detected")
+  return classified.kind === 'unknown' ? classified.message || USER_MESSAGES.unknown : classified.userMessage;
+};
+
+export const isCancellation = (error: unknown): boolean => classifyError(error).kind === 'cancelled';
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  /** Per attempt. */
+  timeoutMs?: number;
+  /** Additional attempts after the first. */
+  retries?: number;
+  baseDelayMs?: number;
+  /** Receives the token usage of each model response, for cost tracking. */
+  onUsage?: (usage: UsageRecord) => void;
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30_000;
+
+/**
+ * Resolves after `ms`, or rejects as cancelled as soon as `signal` aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new TranslatorError('cancelled'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new TranslatorError('cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `operation` with a per-attempt timeout, retrying rate-limit, server, network and
+ * timeout failures with exponential backoff and jitter. The signal passed to `operation`
+ * aborts on timeout or when the caller's `signal` aborts.
+ */
+export const withRetry = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  options: RequestOptions = {}
+): Promise<T> => {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const baseDelay = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    if (options.signal?.aborted) throw new TranslatorError('cancelled');
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    let timedOut = false;
+    const timer = options.timeoutMs
+      ? setTimeout(() => { timedOut = true; controller.abort(); }, options.timeoutMs)
+      : undefined;
+
+    try {
+      return await operation(controller.signal);
+    } catch (error) {
+      let classified = classifyError(error);
+      if (options.signal?.aborted) throw new TranslatorError('cancelled', undefined, error);
+      if (timedOut) classified = new TranslatorError('timeout', undefined, error);
+
+      if (!classified.retryable || attempt >= retries) throw classified;
+
+      const delay = Math.min(MAX_DELAY_MS, baseDelay * 2 ** attempt) * (0.5 + Math.random() / 2);
+      console.warn(`Request failed (${classified.kind}), retrying in ${Math.round(delay)}ms`, error);
+      await sleep(delay, options.signal);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+};
@@ -0,0 +1,166 @@
+import { AnalysisResult } from "../types";
+import { AnalyzeOptions, TranslationProvider } from "./providers";
+import { SpeechOptions } from "./dubbing";
+
+/**
+ * Content-addressed cache of model results. Keys are SHA-256 hashes of everything that
+ * affects a result (media bytes, model, prompt settings, language; text, voice and style for
+ * speech), so a hit is always safe to reuse and nothing needs invalidating.
+ *
+ * The layers follow the pipeline's stages: the source transcript of a media file, translations
+ * of a transcript per language, and speech per line.
+ */
+
+// Bump when the shape of cached values or the prompts change
+const CACHE_VERSION = 2;
+
+export type CacheLayer = 'transcription' | 'translation' | 'speech';
+
+export const CACHE_LAYERS: { layer: CacheLayer; label: string }[] = [
+  { layer: 'transcription', label: 'Transcripts' },
+  { layer: 'translation', label: 'Translations' },
+  { layer: 'speech', label: 'Speech' },
+];
+
+export interface CacheEntryInfo {
+  key: string;
+  layer: CacheLayer;
+  /** Short description for the cache inspector. */
+  label: string;
+  /** Approximate size of the stored value in bytes. */
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+/**
+ * Where cached values live: IndexedDB in the app (see `cacheStore`), files for the CLI.
+ */
+export interface CacheStore {
+  /** The value under `key`, marking it as recently used. */
+  get: <T>(key: string) => Promise<T | undefined>;
+  set: <T>(entry: { key: string; layer: CacheLayer; label: string }, value: T) => Promise<void>;
+  list: () => Promise<CacheEntryInfo[]>;
+  delete: (keys: string[]) => Promise<void>;
+  /** Removes every entry, or only those in `layer`. */
+  clear: (layer?: CacheLayer) => Promise<void>;
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 of the JSON of `parts`. Uses Web Crypto, so it works in the browser and in Node.
+ */
+export const hashKey = async (...parts: unknown[]): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts))));
+
+/**
+ * The settings that change a prompt's output. Callbacks, signals and glossary ids do not.
+ */
+export const promptSettings = (options: AnalyzeOptions = {}) => ({
+  sourceLanguage: options.sourceLanguage,
+  glossary: options.glossary?.map(({ id: _id, ...entry }) => entry),
+  translationStyle: options.translationStyle,
+});
+
+/**
+ * Deletes the least recently used entries until the cache fits in `maxBytes`.
+ */
+export const evictToSize = async (store: CacheStore, maxBytes: number): Promise<number> => {
+  const entries = await store.list();
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const evicted: string[] = [];
+  for (const entry of [...entries].sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+    if (total <= maxBytes) break;
+    evicted.push(entry.key);
+    total -= entry.size;
+  }
+  if (evicted.length) await store.delete(evicted);
+  return evicted.length;
+};
+
+export const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : bytes >= 1024 ? `${Math.round(bytes / 1024)} KB` : `${bytes} B`;
+
+const snippet = (text: string | undefined, length = 48) => {
+  const clean = (text ?? '').replace(/\s+/g, ' ').trim();
+  return clean.length > length ? `${clean.slice(0, length - 1)}…` : clean;
+};
+
+/**
+ * Wraps `provider` so transcription, translation and speech are answered from `store` when an
+ * identical request was made before. Single-line re-translations and rewrites are not cached:
+ * asking again is how a user gets a different wording. Cache errors never fail a request.
+ */
+export const withResultCache = (
+  provider: TranslationProvider,
+  store: CacheStore,
+  onHit?: (layer: CacheLayer) => void
+): TranslationProvider => {
+  const read = async <T>(key: string, layer: CacheLayer): Promise<T | undefined> => {
+    try {
+      const value = await store.get<T>(key);
+      if (value !== undefined) onHit?.(layer);
+      return value;
+    } catch (err) {
+      console.warn("Result cache read failed:", err);
+      return undefined;
+    }
+  };
+
+  const write = async <T>(entry: { key: string; layer: CacheLayer; label: string }, value: T) => {
+    try {
+      await store.set(entry, value);
+    } catch (err) {
+      console.warn("Result cache write failed:", err);
+    }
+  };
+
+  return {
+    ...provider,
+
+    transcribe: async (base64Media, mimeType, options) => {
+      const key = await hashKey(
+        CACHE_VERSION, 'transcription', provider.id, provider.models?.analysis,
+        await hashKey(base64Media), mimeType, options?.sourceLanguage
+      );
+      const cached = await read<AnalysisResult>(key, 'transcription');
+      if (cached) return cached;
+
+      const result = await provider.transcribe(base64Media, mimeType, options);
+      await write(
+        { key, layer: 'transcription', label: `${result.detectedLanguage || 'Unknown language'}: ${result.segments.length} lines, "${snippet(result.segments[0]?.original)}"` },
+        result
+      );
+      return result;
+    },
+
+    // Batches of a long transcript are cached one by one, each with its context lines
+    translate: async (segments, targetLanguage, options) => {
+      const sourceKey = await hashKey(segments.map(({ start, end, original, speaker }) => [start, end, original, speaker]), options?.context);
+      const key = await hashKey(
+        CACHE_VERSION, 'translation', provider.id, provider.models?.analysis, sourceKey, targetLanguage, promptSettings(options)
+      );
+      const cached = await read<AnalysisResult>(key, 'translation');
+      if (cached) return cached;
+
+      const result = await provider.translate(segments, targetLanguage, options);
+      await write(
+        { key, layer: 'translation', label: `${targetLanguage}: ${result.segments.length} lines, "${snippet(result.segments[0]?.translated)}"` },
+        result
+      );
+      return result;
+    },
+
+    synthesize: async (text, voiceName, options?: SpeechOptions) => {
+      const key = await hashKey(CACHE_VERSION, 'speech', provider.id, provider.models?.speech, text, voiceName, options?.style);
+      const cached = await read<string>(key, 'speech');
+      if (cached) return cached;
+
+      const audio = await provider.synthesize(text, voiceName, options);
+      await write({ key, layer: 'speech', label: `${voiceName}: "${snippet(text)}"` }, audio);
+      return audio;
+    },
+  };
+};
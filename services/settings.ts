@@ -0,0 +1,109 @@
+import { GlossaryEntry, LANGUAGES, LanguageOption } from "../types";
+import { findVoice } from "./voices";
+import { PriceTable } from "./usage";
+
+/**
+ * User settings kept in localStorage: small, synchronous and per browser.
+ * Projects (which can be large) live in IndexedDB instead, see `projectStore`.
+ */
+
+const STORAGE_KEY = 'gemini-video-translator:settings';
+
+export const DEFAULT_CACHE_LIMIT_MB = 250;
+
+export interface AppSettings {
+  /** Target languages added by the user, on top of the built-in `LANGUAGES`. */
+  customLanguages: LanguageOption[];
+  /** Terminology applied to every translation, see `glossary`. */
+  glossary: GlossaryEntry[];
+  /** Per-model overrides of `DEFAULT_PRICES`. */
+  prices: PriceTable;
+  /** New runs are blocked once the session would spend more than this (USD); null for no cap. */
+  spendingCapUsd: number | null;
+  /** Size limit of the result cache, see `cacheStore`. */
+  cacheLimitMb: number;
+}
+
+const DEFAULT_SETTINGS: AppSettings = { customLanguages: [], glossary: [], prices: {}, spendingCapUsd: null, cacheLimitMb: DEFAULT_CACHE_LIMIT_MB };
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<AppSettings>;
+    return {
+      customLanguages: Array.isArray(parsed.customLanguages)
+        ? parsed.customLanguages.filter(l => l && typeof l.code === 'string' && typeof l.name === 'string')
+        : [],
+      glossary: Array.isArray(parsed.glossary)
+        ? parsed.glossary.filter(e => e && typeof e.id === 'string' && typeof e.term === 'string')
+        : [],
+      prices: parsed.prices && typeof parsed.prices === 'object' ? parsed.prices : {},
+      spendingCapUsd: typeof parsed.spendingCapUsd === 'number' && parsed.spendingCapUsd > 0 ? parsed.spendingCapUsd : null,
+      cacheLimitMb: typeof parsed.cacheLimitMb === 'number' && parsed.cacheLimitMb > 0 ? parsed.cacheLimitMb : DEFAULT_CACHE_LIMIT_MB,
+    };
+  } catch (err) {
+    console.warn("Ignoring unreadable settings:", err);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Built-in languages followed by the user's own.
+ */
+export const getLanguages = (settings: AppSettings = loadSettings()): LanguageOption[] => [
+  ...LANGUAGES,
+  ...settings.customLanguages,
+];
+
+export const findLanguage = (code: string | null | undefined, languages: LanguageOption[] = getLanguages()) =>
+  code ? languages.find(l => l.code.toLowerCase() === code.toLowerCase()) : undefined;
+
+/**
+ * Canonical form of a BCP-47 tag (e.g. "pt-br" -> "pt-BR"), or null if it is not valid.
+ */
+export const canonicalLanguageCode = (code: string): string | null => {
+  try {
+    return Intl.getCanonicalLocales(code.trim())[0] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * English display name for a tag, e.g. "es-MX" -> "Spanish (Mexico)". Falls back to the tag.
+ */
+export const languageDisplayName = (code: string): string => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language', languageDisplay: 'standard' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+};
+
+/**
+ * Validates and adds a custom language. Throws with a user-facing message on bad input.
+ */
+export const addCustomLanguage = (settings: AppSettings, input: LanguageOption): AppSettings => {
+  const code = canonicalLanguageCode(input.code);
+  if (!code) {
+    throw new Error(`"${input.code}" is not a valid language code. Use a BCP-47 tag such as "es-MX" or "pt-BR".`);
+  }
+  if (findLanguage(code, getLanguages(settings))) {
+    throw new Error(`${code} is already in the language list.`);
+  }
+  if (!findVoice(input.voiceName)) {
+    throw new Error(`Unknown voice "${input.voiceName}".`);
+  }
+  const language: LanguageOption = { code, name: input.name.trim() || languageDisplayName(code), voiceName: input.voiceName };
+  return { ...settings, customLanguages: [...settings.customLanguages, language] };
+};
+
+export const removeCustomLanguage = (settings: AppSettings, code: string): AppSettings => ({
+  ...settings,
+  customLanguages: settings.customLanguages.filter(l => l.code !== code),
+});
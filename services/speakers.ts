@@ -0,0 +1,91 @@
+import { Segment, Speaker, SpeakerAge, SpeakerGender } from "../types";
+import { findVoice, VOICES } from "./voices";
+
+const GENDERS: SpeakerGender[] = ['female', 'male', 'unknown'];
+const AGES: SpeakerAge[] = ['child', 'young', 'adult', 'senior', 'unknown'];
+
+// Voices that suit an age hint better than the rest, tried first
+const AGE_VOICES: Partial<Record<SpeakerAge, string[]>> = {
+  child: ['Leda', 'Puck'],
+  young: ['Leda', 'Laomedeia', 'Puck', 'Sadachbia'],
+  senior: ['Gacrux', 'Algenib', 'Schedar'],
+};
+
+const asText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// "S2" reads as "Speaker 2"; any other label is shown as-is
+const defaultName = (id: string) => {
+  const match = /^S(\d+)$/i.exec(id);
+  return match ? `Speaker ${match[1]}` : id;
+};
+
+/**
+ * Builds the speaker list from the model's `speakers` array and the ids used by segments.
+ * Ids referenced by segments but not described get a plain entry; described speakers
+ * that never speak are dropped. Order follows first appearance in the transcript.
+ */
+export const normalizeSpeakers = (raw: unknown, segments: Segment[]): Speaker[] | undefined => {
+  const described = new Map<string, Record<string, unknown>>();
+  if (Array.isArray(raw)) {
+    for (const entry of raw) {
+      if (!entry || typeof entry !== 'object') continue;
+      const id = asText((entry as Record<string, unknown>).id);
+      if (id && !described.has(id)) described.set(id, entry as Record<string, unknown>);
+    }
+  }
+
+  const ids = [...new Set(segments.map(segment => segment.speaker).filter((id): id is string => Boolean(id)))];
+  if (ids.length === 0) return undefined;
+
+  return ids.map(id => {
+    const entry = described.get(id) ?? {};
+    const gender = asText(entry.gender).toLowerCase() as SpeakerGender;
+    const age = asText(entry.age).toLowerCase() as SpeakerAge;
+    const voiceName = asText(entry.voiceName);
+    return {
+      id,
+      name: asText(entry.name) || defaultName(id),
+      gender: GENDERS.includes(gender) ? gender : 'unknown',
+      age: AGES.includes(age) ? age : 'unknown',
+      ...(findVoice(voiceName) ? { voiceName } : {}),
+    };
+  });
+};
+
+/**
+ * Gives every speaker without a voice a distinct one, matching the gender and age hints
+ * where possible. The first such speaker gets `defaultVoice` (the language's voice) if free.
+ * Voices only repeat once every voice is taken.
+ */
+export const assignVoices = (speakers: Speaker[], defaultVoice: string): Speaker[] => {
+  const used = new Set(speakers.map(speaker => speaker.voiceName).filter(Boolean));
+
+  return speakers.map(speaker => {
+    if (speaker.voiceName) return speaker;
+
+    const defaultFits = findVoice(defaultVoice)?.gender === speaker.gender || !speaker.gender || speaker.gender === 'unknown';
+    let voiceName = !used.has(defaultVoice) && defaultFits ? defaultVoice : undefined;
+
+    if (!voiceName) {
+      const preferred = (AGE_VOICES[speaker.age ?? 'unknown'] ?? [])
+        .map(name => findVoice(name)!)
+        .concat(VOICES);
+      const candidates = preferred.filter(voice => speaker.gender === 'male' || speaker.gender === 'female'
+        ? voice.gender === speaker.gender
+        : true);
+      voiceName = (candidates.find(voice => !used.has(voice.name)) ?? candidates[0] ?? VOICES[0]).name;
+    }
+
+    used.add(voiceName);
+    return { ...speaker, voiceName };
+  });
+};
+
+/**
+ * The voice a segment should be spoken in.
+ */
+export const voiceForSegment = (segment: Segment, speakers: Speaker[] | undefined, fallback: string): string =>
+  speakers?.find(speaker => speaker.id === segment.speaker)?.voiceName || fallback;
+
+export const speakerName = (id: string | undefined, speakers: Speaker[] | undefined): string | undefined =>
+  id ? speakers?.find(speaker => speaker.id === id)?.name ?? id : undefined;
@@ -0,0 +1,289 @@
+import { Segment } from "../types";
+import { formatTimestamp, parseTimestamp } from "./timecode";
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+export type SubtitleTextMode = 'original' | 'translated' | 'bilingual';
+
+export interface SubtitleOptions {
+  mode: SubtitleTextMode;
+  maxCharsPerLine?: number;
+  /** Lines per language; bilingual cues show up to twice this many. */
+  maxLines?: number;
+  /** Reading speed limit; faster cues are extended into following silence where possible. */
+  maxCharsPerSecond?: number;
+  /** Cues shorter than this are merged with a neighbour when the text still fits. */
+  minDuration?: number;
+  /** Largest gap (seconds) bridged when merging short cues. */
+  mergeGap?: number;
+}
+
+/**
+ * A timed subtitle event. `original`/`translated` hold the text for that language
+ * (empty when not shown in the current mode), already free of line breaks.
+ */
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  original: string;
+  translated: string;
+}
+
+const DEFAULTS: Required<Omit<SubtitleOptions, 'mode'>> = {
+  maxCharsPerLine: 42,
+  maxLines: 2,
+  maxCharsPerSecond: 17,
+  minDuration: 1,
+  mergeGap: 0.5,
+};
+
+const MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  ass: 'text/x-ssa',
+};
+
+const normalizeText = (text: string | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+
+const cueLength = (cue: SubtitleCue) => Math.max(cue.original.length, cue.translated.length);
+
+/**
+ * Splits text into `parts` chunks of roughly equal length on word boundaries.
+ * Scripts without spaces (Chinese, Japanese) are split per character.
+ */
+const splitText = (text: string, parts: number): string[] => {
+  if (parts <= 1 || !text) return [text];
+
+  const spaced = text.includes(' ');
+  const tokens = spaced ? text.split(' ') : Array.from(text);
+  const joiner = spaced ? ' ' : '';
+  const target = text.length / parts;
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  for (const token of tokens) {
+    const candidate = [...current, token].join(joiner);
+    if (current.length > 0 && candidate.length > target && chunks.length < parts - 1) {
+      chunks.push(current.join(joiner));
+      current = [token];
+    } else {
+      current.push(token);
+    }
+  }
+  if (current.length) chunks.push(current.join(joiner));
+  while (chunks.length < parts) chunks.push('');
+  return chunks;
+};
+
+/**
+ * Wraps text into evenly balanced lines, so a cue never ends on a single dangling word.
+ */
+export const wrapLines = (text: string, maxCharsPerLine: number): string[] => {
+  if (text.length <= maxCharsPerLine) return text ? [text] : [];
+  const lineCount = Math.ceil(text.length / maxCharsPerLine);
+  return splitText(text, lineCount).filter(Boolean);
+};
+
+/**
+ * Turns segments into display cues: long segments are split so each cue fits
+ * `maxLines` x `maxCharsPerLine`, fast cues borrow time from the following gap,
+ * and very short neighbours are merged.
+ */
+export const buildCues = (segments: Segment[], options: SubtitleOptions): SubtitleCue[] => {
+  const opts = { ...DEFAULTS, ...options };
+  const capacity = opts.maxCharsPerLine * opts.maxLines;
+
+  // 1. Parse and split
+  const cues: SubtitleCue[] = [];
+  for (const segment of segments) {
+    const start = parseTimestamp(segment.start);
+    let end = parseTimestamp(segment.end);
+    if (!Number.isFinite(start)) continue;
+    if (!Number.isFinite(end) || end <= start) end = start + opts.minDuration;
+
+    const original = opts.mode === 'translated' ? '' : normalizeText(segment.original);
+    const translated = opts.mode === 'original' ? '' : normalizeText(segment.translated);
+    const length = Math.max(original.length, translated.length);
+    if (length === 0) continue;
+
+    const parts = Math.ceil(length / capacity);
+    const originals = splitText(original, parts);
+    const translations = splitText(translated, parts);
+    const duration = end - start;
+
+    let cursor = start;
+    for (let i = 0; i < parts; i++) {
+      const share = Math.max(originals[i].length, translations[i].length) / length;
+      const cueEnd = i === parts - 1 ? end : cursor + duration * share;
+      cues.push({ start: cursor, end: cueEnd, original: originals[i], translated: translations[i] });
+      cursor = cueEnd;
+    }
+  }
+  cues.sort((a, b) => a.start - b.start);
+
+  // 2. Merge short cues into the previous one while the text still fits
+  const merged: SubtitleCue[] = [];
+  for (const cue of cues) {
+    const prev = merged[merged.length - 1];
+    const isShort = cue.end - cue.start < opts.minDuration || (prev && prev.end - prev.start < opts.minDuration);
+    if (prev && isShort && cue.start - prev.end <= opts.mergeGap) {
+      const candidate: SubtitleCue = {
+        start: prev.start,
+        end: Math.max(prev.end, cue.end),
+        original: [prev.original, cue.original].filter(Boolean).join(' '),
+        translated: [prev.translated, cue.translated].filter(Boolean).join(' '),
+      };
+      if (cueLength(candidate) <= capacity) {
+        merged[merged.length - 1] = candidate;
+        continue;
+      }
+    }
+    merged.push({ ...cue });
+  }
+
+  // 3. Extend cues that read too fast (or flash too briefly) into the silence that follows
+  merged.forEach((cue, i) => {
+    const needed = Math.max(opts.minDuration, cueLength(cue) / opts.maxCharsPerSecond);
+    if (cue.end - cue.start >= needed) return;
+    const limit = merged[i + 1]?.start ?? Infinity;
+    cue.end = Math.min(cue.start + needed, Math.max(cue.end, limit));
+  });
+
+  return merged;
+};
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+const splitTime = (seconds: number) => {
+  const totalMs = Math.round(Math.max(0, seconds) * 1000);
+  return {
+    h: Math.floor(totalMs / 3_600_000),
+    m: Math.floor((totalMs % 3_600_000) / 60_000),
+    s: Math.floor((totalMs % 60_000) / 1000),
+    ms: totalMs % 1000,
+  };
+};
+
+const srtTime = (seconds: number) => {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${pad(h)}:${pad(m)}:${pad(s)},${pad(ms, 3)}`;
+};
+
+const vttTime = (seconds: number) => srtTime(seconds).replace(',', '.');
+
+const assTime = (seconds: number) => {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${h}:${pad(m)}:${pad(s)}.${pad(Math.floor(ms / 10))}`;
+};
+
+const cueLines = (cue: SubtitleCue, maxCharsPerLine: number): string[] => [
+  ...wrapLines(cue.original, maxCharsPerLine),
+  ...wrapLines(cue.translated, maxCharsPerLine),
+];
+
+export const toSrt = (cues: SubtitleCue[], maxCharsPerLine = DEFAULTS.maxCharsPerLine): string =>
+  cues
+    .map((cue, i) => `${i + 1}\n${srtTime(cue.start)} --> ${srtTime(cue.end)}\n${cueLines(cue, maxCharsPerLine).join('\n')}\n`)
+    .join('\n');
+
+export const toVtt = (cues: SubtitleCue[], maxCharsPerLine = DEFAULTS.maxCharsPerLine): string =>
+  'WEBVTT\n\n' +
+  cues
+    .map((cue, i) => {
+      // "-->" and a bare "&"/"<" would break the cue parser
+      const text = cueLines(cue, maxCharsPerLine)
+        .map(line => line.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/-->/g, '--&gt;'))
+        .join('\n');
+      return `${i + 1}\n${vttTime(cue.start)} --> ${vttTime(cue.end)}\n${text}\n`;
+    })
+    .join('\n');
+
+export const toAss = (cues: SubtitleCue[], maxCharsPerLine = DEFAULTS.maxCharsPerLine): string => {
+  const header = [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    'PlayResX: 1920',
+    'PlayResY: 1080',
+    'WrapStyle: 2',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    'Style: Default,Arial,56,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,1,2,60,60,50,1',
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  const escape = (line: string) => line.replace(/\\/g, '\\\\').replace(/{/g, '\\{').replace(/}/g, '\\}');
+
+  const events = cues.map(cue => {
+    const original = wrapLines(cue.original, maxCharsPerLine).map(escape);
+    const translated = wrapLines(cue.translated, maxCharsPerLine).map(escape);
+    // Bilingual: the source language sits above in a smaller, dimmer style
+    const text = original.length && translated.length
+      ? `{\\fs40\\c&HCCCCCC&}${original.join('\\N')}{\\r}\\N${translated.join('\\N')}`
+      : [...original, ...translated].join('\\N');
+    return `Dialogue: 0,${assTime(cue.start)},${assTime(cue.end)},Default,,0,0,0,,${text}`;
+  });
+
+  return [...header, ...events, ''].join('\n');
+};
+
+/**
+ * Serializes segments into the given subtitle format.
+ */
+export const exportSubtitles = (
+  segments: Segment[],
+  format: SubtitleFormat,
+  options: SubtitleOptions
+): { content: string; mimeType: string } => {
+  const cues = buildCues(segments, options);
+  const maxCharsPerLine = options.maxCharsPerLine ?? DEFAULTS.maxCharsPerLine;
+  const serializers = { srt: toSrt, vtt: toVtt, ass: toAss };
+  return { content: serializers[format](cues, maxCharsPerLine), mimeType: MIME_TYPES[format] };
+};
+
+const TIMING_LINE = /^\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)/;
+
+const stripMarkup = (line: string) =>
+  line
+    .replace(/<[^>]*>/g, '')     // VTT voice/class tags and SRT <i>/<b>/<font>
+    .replace(/\{\\[^}]*\}/g, '') // ASS-style overrides that some SRT files carry
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .trim();
+
+/**
+ * Parses SRT or WebVTT text into segments with the source text in `original`
+ * and an empty `translated`, ready to be sent for translation.
+ */
+export const parseSubtitles = (content: string): Segment[] => {
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/);
+
+  const segments: Segment[] = [];
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+    // Header, NOTE, STYLE and REGION blocks have no timing line
+    if (timingIndex === -1) continue;
+
+    const [, rawStart, rawEnd] = lines[timingIndex].match(TIMING_LINE)!;
+    const start = parseTimestamp(rawStart);
+    const end = parseTimestamp(rawEnd);
+    const text = lines.slice(timingIndex + 1).map(stripMarkup).filter(Boolean).join(' ');
+    if (!Number.isFinite(start) || !Number.isFinite(end) || !text) continue;
+
+    segments.push({
+      start: formatTimestamp(start, true),
+      end: formatTimestamp(end, true),
+      original: text,
+      translated: '',
+    });
+  }
+
+  return segments.sort((a, b) => parseTimestamp(a.start) - parseTimestamp(b.start));
+};
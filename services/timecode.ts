@@ -0,0 +1,32 @@
+/**
+ * Parses a timestamp as returned by the model into seconds.
+ * Accepts "SS", "MM:SS", "HH:MM:SS" and optional fractions ("01:02.5", "00:01:02,500").
+ * Returns NaN when the string cannot be parsed.
+ */
+export const parseTimestamp = (value: string | number | null | undefined): number => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : NaN;
+  if (!value) return NaN;
+
+  const parts = value.trim().replace(',', '.').split(':');
+  if (parts.length > 3 || parts.some(p => !/^\d+(\.\d+)?$/.test(p))) return NaN;
+
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+};
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+/**
+ * Formats seconds as "MM:SS" (or "HH:MM:SS" past the hour), matching the model's own format.
+ * Fractions are kept to the millisecond when `withMillis` is set.
+ */
+export const formatTimestamp = (seconds: number, withMillis = false): string => {
+  const safe = Math.max(0, seconds);
+  const totalMs = Math.round(safe * 1000);
+  const h = Math.floor(totalMs / 3_600_000);
+  const m = Math.floor((totalMs % 3_600_000) / 60_000);
+  const s = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+
+  const base = h > 0 ? `${pad(h)}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+  return withMillis && ms > 0 ? `${base}.${pad(ms, 3)}` : base;
+};
@@ -0,0 +1,53 @@
+import { Segment, TranslationStyle } from "../types";
+import { parseTimestamp } from "./timecode";
+
+/**
+ * Register and length rules for translations. The length budget keeps dubbed
+ * lines short enough to be spoken within the original segment's timing.
+ */
+
+// Around what a TTS voice speaks at a natural pace; used as the suggested limit
+export const DEFAULT_MAX_CHARS_PER_SECOND = 15;
+
+export interface LengthBudget {
+  chars: number;
+  /** Most characters the line may have, or Infinity without a limit. */
+  maxChars: number;
+}
+
+export const segmentDuration = (segment: Segment): number =>
+  Math.max(0, parseTimestamp(segment.end) - parseTimestamp(segment.start));
+
+/**
+ * Character budget for a segment's translation under `maxCharsPerSecond`.
+ */
+export const lengthBudget = (segment: Segment, maxCharsPerSecond: number | undefined): LengthBudget => {
+  const chars = segment.translated.trim().length;
+  const duration = segmentDuration(segment);
+  if (!maxCharsPerSecond || !Number.isFinite(duration)) return { chars, maxChars: Infinity };
+  // Never ask for fewer than a couple of words, even for very short segments
+  return { chars, maxChars: Math.max(12, Math.floor(duration * maxCharsPerSecond)) };
+};
+
+export const isOverBudget = ({ chars, maxChars }: LengthBudget) => chars > maxChars;
+
+/**
+ * Prompt lines describing the style, or '' when it is all defaults.
+ */
+export const describeTranslationStyle = (style: TranslationStyle | undefined): string => {
+  if (!style) return '';
+  const rules: string[] = [];
+  if (style.formality === 'formal') rules.push('Use a formal register (e.g. formal forms of address such as "usted", "Sie" or "vous").');
+  if (style.formality === 'informal') rules.push('Use a casual, informal register (e.g. informal forms of address such as "tú", "du" or "tu").');
+  const audience = style.audience?.trim();
+  if (audience) rules.push(`Write for this audience: ${audience}.`);
+  if (style.maxCharsPerSecond) {
+    rules.push(
+      `The translation will be dubbed, so keep each translated segment to at most ${style.maxCharsPerSecond} characters per second of its duration. ` +
+      'Condense wording rather than drop meaning.'
+    );
+  }
+  const instructions = style.instructions?.trim();
+  if (instructions) rules.push(instructions);
+  return rules.length ? `Translation style:\n${rules.map(rule => `- ${rule}`).join('\n')}` : '';
+};
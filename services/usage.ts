@@ -0,0 +1,195 @@
+import type { TranslationProvider } from "./providers";
+
+/**
+ * Token usage and cost. Providers report usage per response through
+ * `RequestOptions.onUsage`; costs come from a price table the user can edit,
+ * since list prices change and differ between plans.
+ */
+
+/** Analysis covers every text/multimodal call (transcription, translation, rewrites). */
+export type UsageKind = 'analysis' | 'tts';
+
+export interface UsageRecord {
+  model: string;
+  kind: UsageKind;
+  /** Prompt tokens other than audio (text, image, video frames). */
+  inputTokens: number;
+  audioInputTokens: number;
+  /** Response tokens, including thinking. */
+  outputTokens: number;
+}
+
+/** USD per million tokens. */
+export interface ModelPrice {
+  inputPerMillion: number;
+  audioInputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-2.5-flash': { inputPerMillion: 0.3, audioInputPerMillion: 1.0, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-preview-tts': { inputPerMillion: 0.5, audioInputPerMillion: 0.5, outputPerMillion: 10.0 },
+};
+
+// Models used by the pipeline; estimates are priced against these
+const ANALYSIS_MODEL = 'gemini-2.5-flash';
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export type UsageSummary = Record<UsageKind, UsageTotals>;
+
+const ZERO: UsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+
+export const EMPTY_USAGE: UsageSummary = { analysis: ZERO, tts: ZERO };
+
+/** The subset of Gemini's `usageMetadata` that is priced. */
+interface UsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+  promptTokensDetails?: { modality?: string; tokenCount?: number }[];
+}
+
+export const usageKindOf = (model: string): UsageKind => (/tts/i.test(model) ? 'tts' : 'analysis');
+
+export const usageFromMetadata = (model: string, metadata: UsageMetadata | undefined): UsageRecord => {
+  const prompt = metadata?.promptTokenCount ?? 0;
+  const audio = (metadata?.promptTokensDetails ?? [])
+    .filter(detail => detail.modality === 'AUDIO')
+    .reduce((sum, detail) => sum + (detail.tokenCount ?? 0), 0);
+  return {
+    model,
+    kind: usageKindOf(model),
+    inputTokens: Math.max(0, prompt - audio),
+    audioInputTokens: audio,
+    outputTokens: (metadata?.candidatesTokenCount ?? 0) + (metadata?.thoughtsTokenCount ?? 0),
+  };
+};
+
+export const priceFor = (model: string, prices: PriceTable): ModelPrice | undefined =>
+  prices[model] ?? DEFAULT_PRICES[model];
+
+/**
+ * Cost in USD. Models missing from the price table count as free.
+ */
+export const usageCost = (usage: UsageRecord, prices: PriceTable): number => {
+  const price = priceFor(usage.model, prices);
+  if (!price) return 0;
+  return (
+    usage.inputTokens * price.inputPerMillion +
+    usage.audioInputTokens * price.audioInputPerMillion +
+    usage.outputTokens * price.outputPerMillion
+  ) / 1_000_000;
+};
+
+/**
+ * Adds one response to a summary, pricing it at today's prices.
+ */
+export const addUsage = (summary: UsageSummary, usage: UsageRecord, prices: PriceTable): UsageSummary => {
+  const totals = summary[usage.kind];
+  return {
+    ...summary,
+    [usage.kind]: {
+      requests: totals.requests + 1,
+      inputTokens: totals.inputTokens + usage.inputTokens + usage.audioInputTokens,
+      outputTokens: totals.outputTokens + usage.outputTokens,
+      cost: totals.cost + usageCost(usage, prices),
+    },
+  };
+};
+
+export const totalCost = (summary: UsageSummary): number => summary.analysis.cost + summary.tts.cost;
+
+// Rough rates for estimates, from Gemini's documented media tokenization
+const VIDEO_TOKENS_PER_SECOND = 263; // Frames at 1 fps plus audio
+const AUDIO_TOKENS_PER_SECOND = 32;
+const TTS_OUTPUT_TOKENS_PER_SECOND = 25;
+const CHARS_PER_TOKEN = 4;
+const SPOKEN_CHARS_PER_SECOND = 15;
+const PROMPT_OVERHEAD_TOKENS = 600;
+// Transcript, then its translation, plus JSON keys and some thinking
+const ANALYSIS_OUTPUT_FACTOR = 3;
+
+export interface CostEstimateInput {
+  /** Length of the media, when it is sent for transcription. */
+  mediaSeconds?: number;
+  /** 'video' when the whole file is inlined, 'audio' when only its audio track is sent in chunks. */
+  media?: 'video' | 'audio';
+  /** Source text, when an existing transcript or captions are translated instead of media. */
+  sourceChars?: number;
+  generateDub: boolean;
+}
+
+export interface CostEstimate {
+  analysis: number;
+  tts: number;
+  total: number;
+}
+
+/**
+ * Order-of-magnitude cost of a run before it starts. Speech length is guessed from
+ * the media duration or the source text, so real costs can differ noticeably.
+ */
+export const estimateRunCost = (input: CostEstimateInput, prices: PriceTable): CostEstimate => {
+  const seconds = input.mediaSeconds && Number.isFinite(input.mediaSeconds) ? input.mediaSeconds : 0;
+  const spokenChars = input.sourceChars ?? seconds * SPOKEN_CHARS_PER_SECOND;
+  const textTokens = spokenChars / CHARS_PER_TOKEN;
+
+  const mediaTokens = input.media ? seconds * (input.media === 'video' ? VIDEO_TOKENS_PER_SECOND : AUDIO_TOKENS_PER_SECOND) : 0;
+  const audioTokens = input.media ? seconds * AUDIO_TOKENS_PER_SECOND : 0;
+  const analysis = usageCost({
+    model: ANALYSIS_MODEL,
+    kind: 'analysis',
+    // The translation stage sends the source text, whether it was transcribed or imported
+    inputTokens: PROMPT_OVERHEAD_TOKENS + (mediaTokens - audioTokens) + textTokens,
+    audioInputTokens: audioTokens,
+    outputTokens: textTokens * ANALYSIS_OUTPUT_FACTOR,
+  }, prices);
+
+  const tts = input.generateDub
+    ? usageCost({
+        model: TTS_MODEL,
+        kind: 'tts',
+        inputTokens: textTokens,
+        audioInputTokens: 0,
+        outputTokens: (spokenChars / SPOKEN_CHARS_PER_SECOND) * TTS_OUTPUT_TOKENS_PER_SECOND,
+      }, prices)
+    : 0;
+
+  return { analysis, tts, total: analysis + tts };
+};
+
+export const formatCost = (usd: number): string =>
+  usd === 0 ? '$0.00' : usd < 0.01 ? '<$0.01' : `$${usd.toFixed(usd < 1 ? 3 : 2)}`;
+
+export const formatTokens = (tokens: number): string =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(Math.round(tokens));
+
+/**
+ * Wraps a provider so every call reports its usage to `onUsage`, without threading the
+ * callback through each call site.
+ */
+export const withUsageTracking = (
+  provider: TranslationProvider,
+  onUsage: (usage: UsageRecord) => void
+): TranslationProvider => ({
+  ...provider,
+  transcribe: (base64Media, mimeType, options) =>
+    provider.transcribe(base64Media, mimeType, { ...options, onUsage }),
+  translate: (segments, targetLanguage, options) =>
+    provider.translate(segments, targetLanguage, { ...options, onUsage }),
+  translateLine: (original, targetLanguage, context, options) =>
+    provider.translateLine(original, targetLanguage, context, { ...options, onUsage }),
+  shortenLine: (original, translated, targetLanguage, maxChars, options) =>
+    provider.shortenLine(original, translated, targetLanguage, maxChars, { ...options, onUsage }),
+  synthesize: (text, voiceName, options) =>
+    provider.synthesize(text, voiceName, { ...options, onUsage }),
+});
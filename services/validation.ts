@@ -0,0 +1,169 @@
+import { AnalysisResult, Segment, ValidationWarning } from "../types";
+import { formatTimestamp, parseTimestamp } from "./timecode";
+import { normalizeSpeakers } from "./speakers";
+
+/**
+ * Thrown when a model payload cannot be turned into a usable `AnalysisResult`.
+ * `issues` lists what was wrong, phrased so it can be sent back to the model in a repair prompt.
+ */
+export class AnalysisValidationError extends Error {
+  constructor(message: string, public readonly issues: string[]) {
+    super(message);
+    this.name = 'AnalysisValidationError';
+  }
+}
+
+export interface ValidationOptions {
+  /** Gaps up to this many seconds are closed by extending the previous segment. */
+  maxFilledGap?: number;
+  /** Set for transcripts that are not translated yet, so empty translations are expected. */
+  sourceOnly?: boolean;
+}
+
+const DEFAULT_MAX_FILLED_GAP = 0.5;
+// Used to estimate a missing or broken end time from the amount of text
+const ESTIMATED_CHARS_PER_SECOND = 15;
+const MIN_SEGMENT_SECONDS = 0.5;
+
+interface WorkingSegment {
+  start: number;
+  end: number;
+  original: string;
+  translated: string;
+  speaker: string;
+}
+
+const asText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const estimateDuration = (text: string) => Math.max(MIN_SEGMENT_SECONDS, text.length / ESTIMATED_CHARS_PER_SECOND);
+
+/**
+ * Parses a model response (string or already-parsed JSON) into an `AnalysisResult`:
+ * timestamps are normalized, segments sorted and de-overlapped, small gaps closed,
+ * and anything that had to be fixed or looks wrong is reported in `warnings`.
+ *
+ * Throws `AnalysisValidationError` when nothing usable can be recovered.
+ */
+export const validateAnalysisResult = (raw: unknown, options: ValidationOptions = {}): AnalysisResult => {
+  const maxFilledGap = options.maxFilledGap ?? DEFAULT_MAX_FILLED_GAP;
+  const warnings: ValidationWarning[] = [];
+
+  let payload = raw;
+  if (typeof payload === 'string') {
+    try {
+      payload = JSON.parse(payload);
+    } catch {
+      throw new AnalysisValidationError("Response is not valid JSON", ["The response was not valid JSON."]);
+    }
+  }
+
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    throw new AnalysisValidationError("Response is not a JSON object", ["The top-level value must be a JSON object."]);
+  }
+  const data = payload as Record<string, unknown>;
+
+  if (!Array.isArray(data.segments)) {
+    throw new AnalysisValidationError("Response has no segments array", ['The "segments" field is missing or not an array.']);
+  }
+
+  let detectedLanguage = asText(data.detectedLanguage);
+  if (!detectedLanguage) {
+    detectedLanguage = 'Unknown';
+    warnings.push({ code: 'missing_field', message: 'The detected language was missing.' });
+  }
+  const summary = asText(data.summary);
+  if (!summary) {
+    warnings.push({ code: 'missing_field', message: 'The summary was missing.' });
+  }
+
+  // 1. Coerce each entry, estimating timestamps that are missing or malformed
+  const working: WorkingSegment[] = [];
+  let badTimestamps = 0;
+  data.segments.forEach((entry, index) => {
+    if (!entry || typeof entry !== 'object') {
+      warnings.push({ code: 'dropped_segment', message: `Segment ${index + 1} was not an object and was dropped.` });
+      return;
+    }
+    const item = entry as Record<string, unknown>;
+    const original = asText(item.original);
+    const translated = asText(item.translated);
+    if (!original && !translated) {
+      warnings.push({ code: 'dropped_segment', message: `Segment ${index + 1} had no text and was dropped.` });
+      return;
+    }
+
+    let start = parseTimestamp(item.start as string | number);
+    let end = parseTimestamp(item.end as string | number);
+    const previousEnd = working[working.length - 1]?.end ?? 0;
+
+    if (!Number.isFinite(start)) {
+      badTimestamps++;
+      warnings.push({ code: 'bad_timestamp', message: `Segment ${index + 1} had an unreadable start time "${item.start ?? ''}"; it was placed after the previous line.` });
+      start = previousEnd;
+    }
+    if (!Number.isFinite(end)) {
+      badTimestamps++;
+      warnings.push({ code: 'bad_timestamp', message: `Segment ${index + 1} had an unreadable end time "${item.end ?? ''}"; it was estimated from the text length.` });
+      end = start + estimateDuration(original || translated);
+    } else if (end <= start) {
+      warnings.push({ code: 'end_before_start', message: `Segment ${index + 1} ended before it started; the end time was estimated.` });
+      end = start + estimateDuration(original || translated);
+    }
+
+    working.push({ start, end, original, translated, speaker: asText(item.speaker) });
+  });
+
+  if (working.length === 0 && data.segments.length > 0) {
+    throw new AnalysisValidationError("No usable segments in response", ["None of the segments contained usable text."]);
+  }
+  // When every timestamp is broken the estimated timeline is meaningless
+  if (working.length > 0 && badTimestamps >= working.length * 2) {
+    throw new AnalysisValidationError("No segment has readable timestamps", ['No segment has "start"/"end" in "MM:SS" or "HH:MM:SS" format.']);
+  }
+
+  // 2. Sort
+  const sorted = [...working].sort((a, b) => a.start - b.start);
+  if (sorted.some((segment, i) => segment !== working[i])) {
+    warnings.push({ code: 'unsorted', message: 'Segments were out of order and have been sorted.' });
+  }
+
+  // 3. Resolve overlaps and close tiny gaps
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1];
+    const current = sorted[i];
+
+    if (current.start < prev.end) {
+      // Prefer shortening the earlier line; shift the later one only if that would erase it
+      if (current.start - prev.start >= MIN_SEGMENT_SECONDS) {
+        prev.end = current.start;
+      } else {
+        current.start = prev.end;
+        current.end = Math.max(current.end, current.start + MIN_SEGMENT_SECONDS);
+      }
+      warnings.push({ code: 'overlap', message: `Segments ${i} and ${i + 1} overlapped and were adjusted.`, segmentIndex: i });
+    } else if (current.start - prev.end <= maxFilledGap) {
+      prev.end = current.start;
+    }
+  }
+
+  // 4. Flag lines that cannot be dubbed or subtitled as-is
+  sorted.forEach((segment, index) => {
+    if (!segment.translated && !options.sourceOnly) {
+      warnings.push({ code: 'empty_translation', message: `Segment ${index + 1} (${formatTimestamp(segment.start)}) has no translation.`, segmentIndex: index });
+    }
+    if (!segment.original) {
+      warnings.push({ code: 'empty_original', message: `Segment ${index + 1} (${formatTimestamp(segment.start)}) has no original text.`, segmentIndex: index });
+    }
+  });
+
+  const segments: Segment[] = sorted.map(segment => ({
+    start: formatTimestamp(segment.start, true),
+    end: formatTimestamp(segment.end, true),
+    original: segment.original,
+    translated: segment.translated,
+    ...(segment.speaker ? { speaker: segment.speaker } : {}),
+  }));
+  const speakers = normalizeSpeakers(data.speakers, segments);
+
+  return { detectedLanguage, summary, segments, ...(speakers ? { speakers } : {}), warnings };
+};
@@ -0,0 +1,250 @@
+import { Segment } from "../types";
+import { DubTrack } from "./dubbing";
+import { base64ToPcm16 } from "./audio";
+import { buildCues, exportSubtitles, SubtitleCue, SubtitleTextMode, wrapLines } from "./subtitles";
+import { parseTimestamp } from "./timecode";
+import { TranslatorError } from "./request";
+
+/**
+ * Renders the source video with the generated dub into a new file, entirely in the browser.
+ *
+ * The video is played back in real time into a canvas (where subtitles can be burned in) and
+ * a Web Audio graph (where the dub is mixed with the original), and the result is captured
+ * with MediaRecorder. Exporting therefore takes as long as the video itself.
+ */
+
+export type ExportAudioMode = 'dub' | 'mix' | 'original';
+export type ExportSubtitleMode = 'none' | 'burned' | 'soft';
+
+export interface VideoExportOptions {
+  audioMode: ExportAudioMode;
+  /** Volume of the original track while dubbed speech plays (mix mode), 0-1. */
+  duckLevel?: number;
+  /** Volume of the original track between dubbed lines (mix mode), 0-1. */
+  originalLevel?: number;
+  subtitleMode: ExportSubtitleMode;
+  subtitleText?: SubtitleTextMode;
+  /** Preferred container; falls back to whatever the browser can record. */
+  container?: 'webm' | 'mp4';
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface VideoExportResult {
+  video: Blob;
+  extension: 'webm' | 'mp4';
+  /** Sidecar WebVTT when soft subtitles were requested (recorded files cannot carry text tracks). */
+  subtitles?: string;
+}
+
+const MIME_CANDIDATES: Record<'webm' | 'mp4', string[]> = {
+  mp4: ['video/mp4;codecs=avc1,mp4a', 'video/mp4'],
+  webm: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'],
+};
+
+const DUCK_RAMP_SECONDS = 0.15;
+const FRAME_RATE = 30;
+const LOAD_TIMEOUT_MS = 30_000;
+
+/**
+ * The best recording format the browser supports, preferring `container`.
+ */
+export const pickRecorderMimeType = (container: 'webm' | 'mp4' = 'webm'): { mimeType: string; extension: 'webm' | 'mp4' } | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  const order: ('webm' | 'mp4')[] = container === 'mp4' ? ['mp4', 'webm'] : ['webm', 'mp4'];
+  for (const extension of order) {
+    const mimeType = MIME_CANDIDATES[extension].find(type => MediaRecorder.isTypeSupported(type));
+    if (mimeType) return { mimeType, extension };
+  }
+  return null;
+};
+
+const loadVideo = (file: Blob, signal?: AbortSignal): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new TranslatorError('cancelled'));
+      return;
+    }
+    const video = document.createElement('video');
+    const settle = (error?: TranslatorError) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      video.onloadedmetadata = null;
+      video.onerror = null;
+      if (!error) return resolve(video);
+      video.removeAttribute('src');
+      URL.revokeObjectURL(url);
+      reject(error);
+    };
+    const onAbort = () => settle(new TranslatorError('cancelled'));
+    // Some files never report metadata or an error; don't leave the export waiting forever
+    const timer = setTimeout(() => settle(new TranslatorError('timeout', "The video took too long to load for export")), LOAD_TIMEOUT_MS);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const url = URL.createObjectURL(file);
+    video.src = url;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => settle();
+    video.onerror = () => settle(new TranslatorError('invalid_media', "Could not load the video for export"));
+  });
+
+const drawCue = (ctx: CanvasRenderingContext2D, cue: SubtitleCue, width: number, height: number) => {
+  const fontSize = Math.round(height * 0.05);
+  const maxChars = Math.max(20, Math.floor(width / (fontSize * 0.55)));
+  const lines = [...wrapLines(cue.original, maxChars), ...wrapLines(cue.translated, maxChars)];
+
+  ctx.font = `600 ${fontSize}px Inter, Arial, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = Math.max(2, fontSize / 8);
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.9)';
+  ctx.fillStyle = '#ffffff';
+
+  const lineHeight = fontSize * 1.25;
+  const bottom = height - height * 0.06;
+  lines.forEach((line, i) => {
+    const y = bottom - (lines.length - 1 - i) * lineHeight;
+    ctx.strokeText(line, width / 2, y);
+    ctx.fillText(line, width / 2, y);
+  });
+};
+
+/**
+ * Lowers the original track under every dubbed line.
+ */
+const scheduleDucking = (gain: GainNode, segments: Segment[], startAt: number, duckLevel: number, originalLevel: number) => {
+  gain.gain.setValueAtTime(originalLevel, startAt);
+  for (const segment of segments) {
+    const start = parseTimestamp(segment.start);
+    const end = parseTimestamp(segment.end);
+    if (!Number.isFinite(start) || !Number.isFinite(end) || !segment.translated) continue;
+    const from = startAt + Math.max(0, start - DUCK_RAMP_SECONDS);
+    gain.gain.setTargetAtTime(duckLevel, from, DUCK_RAMP_SECONDS / 3);
+    gain.gain.setTargetAtTime(originalLevel, startAt + end, DUCK_RAMP_SECONDS / 3);
+  }
+};
+
+export const exportDubbedVideo = async (
+  videoFile: Blob,
+  dub: DubTrack | null,
+  segments: Segment[],
+  options: VideoExportOptions
+): Promise<VideoExportResult> => {
+  const format = pickRecorderMimeType(options.container);
+  if (!format) {
+    throw new Error("This browser cannot record video. Try a recent version of Chrome, Edge or Firefox.");
+  }
+  if (options.audioMode !== 'original' && !dub) {
+    throw new Error("Generate the dubbed audio before exporting with it.");
+  }
+
+  const video = await loadVideo(videoFile, options.signal);
+  const width = video.videoWidth || 1280;
+  const height = video.videoHeight || 720;
+  const duration = video.duration;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx2d = canvas.getContext('2d')!;
+
+  const audioContext = new AudioContext();
+  const destination = audioContext.createMediaStreamDestination();
+
+  // The element's own output is routed through the graph (and never to the speakers)
+  const originalGain = audioContext.createGain();
+  audioContext.createMediaElementSource(video).connect(originalGain);
+  if (options.audioMode !== 'dub') originalGain.connect(destination);
+
+  let dubSource: AudioBufferSourceNode | null = null;
+  if (dub && options.audioMode !== 'original') {
+    const pcm = base64ToPcm16(dub.audioBase64);
+    const buffer = audioContext.createBuffer(1, pcm.length, dub.sampleRate);
+    const channel = buffer.getChannelData(0);
+    for (let i = 0; i < pcm.length; i++) channel[i] = pcm[i] / 32768;
+    dubSource = audioContext.createBufferSource();
+    dubSource.buffer = buffer;
+    dubSource.connect(destination);
+  }
+
+  const cues = options.subtitleMode === 'burned'
+    ? buildCues(segments, { mode: options.subtitleText ?? 'translated' })
+    : [];
+
+  const stream = new MediaStream([
+    ...canvas.captureStream(FRAME_RATE).getVideoTracks(),
+    ...destination.stream.getAudioTracks(),
+  ]);
+  const recorder = new MediaRecorder(stream, { mimeType: format.mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+
+  let frameHandle = 0;
+  const drawFrame = () => {
+    ctx2d.drawImage(video, 0, 0, width, height);
+    const t = video.currentTime;
+    const cue = cues.find(c => t >= c.start && t < c.end);
+    if (cue) drawCue(ctx2d, cue, width, height);
+    options.onProgress?.(duration ? Math.min(1, t / duration) : 0);
+    frameHandle = requestAnimationFrame(drawFrame);
+  };
+
+  const cleanup = () => {
+    cancelAnimationFrame(frameHandle);
+    video.pause();
+    try { dubSource?.stop(); } catch { /* not started */ }
+    stream.getTracks().forEach(track => track.stop());
+    audioContext.close();
+    URL.revokeObjectURL(video.src);
+  };
+
+  let onAbort = () => {};
+  try {
+    const finished = new Promise<void>((resolve, reject) => {
+      onAbort = () => reject(new TranslatorError('cancelled'));
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      video.onended = () => resolve();
+      video.onerror = () => reject(new Error("Playback failed during export"));
+    });
+    // Awaited once playback runs; if starting playback fails first, this must not go unhandled
+    finished.catch(() => {});
+
+    if (audioContext.state === 'suspended') await audioContext.resume();
+    // The listener above never fires for an abort that happened before it was added
+    if (options.signal?.aborted) throw new TranslatorError('cancelled');
+    video.currentTime = 0;
+    recorder.start(1000);
+    drawFrame();
+    await video.play();
+
+    // Start the dub and ducking against the audio clock at the moment playback began
+    const startAt = audioContext.currentTime;
+    dubSource?.start(startAt);
+    if (options.audioMode === 'mix') {
+      scheduleDucking(originalGain, segments, startAt, options.duckLevel ?? 0.2, options.originalLevel ?? 1);
+    }
+
+    await finished;
+
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+    recorder.stop();
+    await stopped;
+    options.onProgress?.(1);
+  } catch (error) {
+    if (recorder.state !== 'inactive') recorder.stop();
+    throw error;
+  } finally {
+    options.signal?.removeEventListener('abort', onAbort);
+    cleanup();
+  }
+
+  return {
+    video: new Blob(chunks, { type: format.mimeType }),
+    extension: format.extension,
+    subtitles: options.subtitleMode === 'soft'
+      ? exportSubtitles(segments, 'vtt', { mode: options.subtitleText ?? 'translated' }).content
+      : undefined,
+  };
+};
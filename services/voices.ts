@@ -0,0 +1,102 @@
+import { SpeechStyle } from "../types";
+import { SpeechSynthesizer } from "./dubbing";
+
+/**
+ * Prebuilt voices offered by the Gemini TTS model. `gender` is how the voice
+ * presents and is only used to pick sensible defaults for detected speakers.
+ */
+export interface VoiceOption {
+  name: string;
+  gender: 'female' | 'male';
+  description: string;
+}
+
+export const VOICES: VoiceOption[] = [
+  { name: 'Zephyr', gender: 'female', description: 'Bright' },
+  { name: 'Puck', gender: 'male', description: 'Upbeat' },
+  { name: 'Charon', gender: 'male', description: 'Informative' },
+  { name: 'Kore', gender: 'female', description: 'Firm' },
+  { name: 'Fenrir', gender: 'male', description: 'Excitable' },
+  { name: 'Leda', gender: 'female', description: 'Youthful' },
+  { name: 'Orus', gender: 'male', description: 'Firm' },
+  { name: 'Aoede', gender: 'female', description: 'Breezy' },
+  { name: 'Callirrhoe', gender: 'female', description: 'Easy-going' },
+  { name: 'Autonoe', gender: 'female', description: 'Bright' },
+  { name: 'Enceladus', gender: 'male', description: 'Breathy' },
+  { name: 'Iapetus', gender: 'male', description: 'Clear' },
+  { name: 'Umbriel', gender: 'male', description: 'Easy-going' },
+  { name: 'Algieba', gender: 'male', description: 'Smooth' },
+  { name: 'Despina', gender: 'female', description: 'Smooth' },
+  { name: 'Erinome', gender: 'female', description: 'Clear' },
+  { name: 'Algenib', gender: 'male', description: 'Gravelly' },
+  { name: 'Rasalgethi', gender: 'male', description: 'Informative' },
+  { name: 'Laomedeia', gender: 'female', description: 'Upbeat' },
+  { name: 'Achernar', gender: 'female', description: 'Soft' },
+  { name: 'Alnilam', gender: 'male', description: 'Firm' },
+  { name: 'Schedar', gender: 'male', description: 'Even' },
+  { name: 'Gacrux', gender: 'female', description: 'Mature' },
+  { name: 'Pulcherrima', gender: 'female', description: 'Forward' },
+  { name: 'Achird', gender: 'male', description: 'Friendly' },
+  { name: 'Zubenelgenubi', gender: 'male', description: 'Casual' },
+  { name: 'Vindemiatrix', gender: 'female', description: 'Gentle' },
+  { name: 'Sadachbia', gender: 'male', description: 'Lively' },
+  { name: 'Sadaltager', gender: 'male', description: 'Knowledgeable' },
+  { name: 'Sulafat', gender: 'female', description: 'Warm' },
+];
+
+export const findVoice = (name: string | undefined): VoiceOption | undefined =>
+  VOICES.find(voice => voice.name === name);
+
+export const SPEECH_TONES = ['neutral', 'warm', 'formal', 'casual', 'cheerful', 'serious', 'dramatic'];
+
+/**
+ * Turns a style into a spoken-delivery instruction, or '' when there is nothing to say.
+ * The result is also stored on clips, so changing the style marks them as outdated.
+ */
+export const describeSpeechStyle = (style: SpeechStyle | undefined): string => {
+  if (!style) return '';
+  const parts: string[] = [];
+  const tone = style.tone?.trim();
+  if (tone && tone !== 'neutral') parts.push(`in a ${tone} tone`);
+  if (style.pace === 'slow') parts.push('at a slow, unhurried pace');
+  if (style.pace === 'fast') parts.push('at a brisk pace');
+  const emotion = style.emotion?.trim();
+  if (emotion) parts.push(`sounding ${emotion}`);
+
+  const sentences = parts.length ? [`Say the following ${parts.join(', ')}`] : [];
+  const instructions = style.instructions?.trim();
+  if (instructions) sentences.push(instructions.replace(/[.\s]+$/, ''));
+  return sentences.join('. ');
+};
+
+/**
+ * The text sent to TTS: the delivery instruction, if any, followed by the line itself.
+ */
+export const styledSpeechText = (text: string, style: SpeechStyle | undefined): string => {
+  const direction = describeSpeechStyle(style);
+  return direction ? `${direction}:\n${text}` : text;
+};
+
+const PREVIEW_TEXT = "Hello! This is how I sound when I read your translation.";
+
+// Session cache keyed by voice and style, so replaying a preview is free
+const previewCache = new Map<string, Promise<string>>();
+
+/**
+ * A short sample of `voiceName` (base64 PCM), synthesized once per voice and style.
+ */
+export const getVoicePreview = (
+  voiceName: string,
+  synthesize: SpeechSynthesizer,
+  style?: SpeechStyle
+): Promise<string> => {
+  const key = `${voiceName}\n${describeSpeechStyle(style)}`;
+  let preview = previewCache.get(key);
+  if (!preview) {
+    preview = synthesize(PREVIEW_TEXT, voiceName, { style });
+    previewCache.set(key, preview);
+    // Drop failures so the next click tries again
+    preview.catch(() => previewCache.delete(key));
+  }
+  return preview;
+};
@@ -1,7 +1,9 @@
 export enum TranslationStatus {
   IDLE = 'IDLE',
   UPLOADING = 'UPLOADING',
-  ANALYZING = 'ANALYZING',
+  TRANSCRIBING = 'TRANSCRIBING',       // Media to source-language segments
+  AWAITING_REVIEW = 'AWAITING_REVIEW', // Source transcript ready to be checked before translation
+  TRANSLATING = 'TRANSLATING',         // Source segments to the target language, text only
   GENERATING_SPEECH = 'GENERATING_SPEECH',
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR',
@@ -12,18 +14,82 @@ export interface Segment {
   end: string;   // e.g. "00:05"
   original: string;
   translated: string;
+  speaker?: string; // Speaker id, e.g. "S1"; see AnalysisResult.speakers
+}
+
+export type SpeakerGender = 'female' | 'male' | 'unknown';
+export type SpeakerAge = 'child' | 'young' | 'adult' | 'senior' | 'unknown';
+
+export interface Speaker {
+  id: string;
+  name: string; // Display name, editable by the user
+  gender?: SpeakerGender;
+  age?: SpeakerAge;
+  voiceName?: string; // TTS voice for this speaker's lines; falls back to the language voice
+}
+
+export type SpeechPace = 'slow' | 'normal' | 'fast';
+
+/**
+ * Delivery directions for TTS. The model is steered with natural-language instructions,
+ * so every field is free text except `pace`.
+ */
+export interface SpeechStyle {
+  tone?: string;         // e.g. "warm", "formal"
+  pace?: SpeechPace;
+  emotion?: string;      // e.g. "excited", "calm"
+  instructions?: string; // Anything else, e.g. "pronounce brand names in English"
+}
+
+export type Formality = 'default' | 'formal' | 'informal';
+
+/**
+ * How translations should read. Sent with every translation request of a project.
+ */
+export interface TranslationStyle {
+  formality?: Formality;
+  audience?: string;          // e.g. "children", "software developers"
+  instructions?: string;      // Anything else, e.g. "use US spelling"
+  maxCharsPerSecond?: number; // Length budget per second of segment duration; absent means no limit
+}
+
+export type ValidationWarningCode =
+  | 'missing_field'
+  | 'dropped_segment'
+  | 'bad_timestamp'
+  | 'end_before_start'
+  | 'unsorted'
+  | 'overlap'
+  | 'empty_translation'
+  | 'empty_original';
+
+export interface ValidationWarning {
+  code: ValidationWarningCode;
+  message: string;
+  segmentIndex?: number;
 }
 
 export interface AnalysisResult {
   detectedLanguage: string;
   summary: string;
   segments: Segment[];
+  speakers?: Speaker[]; // Everyone referenced by segment.speaker, in order of first appearance
+  warnings?: ValidationWarning[]; // Issues found (and fixed where possible) in the model's response
+}
+
+export interface GlossaryEntry {
+  id: string;
+  term: string; // As it appears in the source speech
+  translation: string; // Required rendering in the target language; ignored when doNotTranslate
+  language?: string; // Target language code the entry applies to; absent means every language
+  caseSensitive: boolean;
+  doNotTranslate: boolean; // Keep the term verbatim (brand and product names)
 }
 
 export interface LanguageOption {
   code: string;
   name: string;
-  voiceName: string; // Mapping to Gemini TTS voice names
+  voiceName: string; // Default Gemini TTS voice for new projects in this language
 }
 
 export const LANGUAGES: LanguageOption[] = [
@@ -8,11 +8,15 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Model calls go through the API proxy (npm run server), which holds GEMINI_API_KEY.
+        // The key must never be added to `define`: that would bake it into the client bundle.
+        proxy: {
+          '/api': env.API_PROXY_URL || 'http://localhost:8787',
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.TRANSLATOR_PROVIDER': JSON.stringify(env.TRANSLATOR_PROVIDER || 'gemini')
       },
       resolve: {
         alias: {